@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ConversationState" (
+    "id" TEXT NOT NULL,
+    "whatsappSessionId" TEXT NOT NULL,
+    "senderNumber" TEXT NOT NULL,
+    "flow" TEXT NOT NULL,
+    "step" TEXT NOT NULL,
+    "data" JSONB,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConversationState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationState_whatsappSessionId_senderNumber_key" ON "ConversationState"("whatsappSessionId", "senderNumber");
+
+-- AddForeignKey
+ALTER TABLE "ConversationState" ADD CONSTRAINT "ConversationState_whatsappSessionId_fkey" FOREIGN KEY ("whatsappSessionId") REFERENCES "WhatsappSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
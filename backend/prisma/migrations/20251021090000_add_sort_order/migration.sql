@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CustomKeyword" ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0;
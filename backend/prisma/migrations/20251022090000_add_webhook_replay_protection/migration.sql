@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "WhatsappSession" ADD COLUMN     "webhookSecretHash" TEXT;
+
+-- Backfill the lookup hash of existing secrets
+UPDATE "WhatsappSession" SET "webhookSecretHash" = encode(sha256(convert_to("webhookSecret", 'UTF8')), 'hex');
+
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "whatsappSessionId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WhatsappSession_webhookSecretHash_idx" ON "WhatsappSession"("webhookSecretHash");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_receivedAt_idx" ON "WebhookEvent"("receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_whatsappSessionId_eventId_key" ON "WebhookEvent"("whatsappSessionId", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookEvent" ADD CONSTRAINT "WebhookEvent_whatsappSessionId_fkey" FOREIGN KEY ("whatsappSessionId") REFERENCES "WhatsappSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
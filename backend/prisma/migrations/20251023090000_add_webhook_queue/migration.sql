@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "payload" JSONB,
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'pending';
+
+-- Events recorded before the queue existed were processed synchronously
+UPDATE "WebhookEvent" SET "status" = 'processed', "processedAt" = "receivedAt";
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_nextAttemptAt_idx" ON "WebhookEvent"("status", "nextAttemptAt");
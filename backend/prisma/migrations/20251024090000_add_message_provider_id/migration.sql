@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "providerMessageId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Message_whatsappSessionId_providerMessageId_idx" ON "Message"("whatsappSessionId", "providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "Message_whatsappSessionId_senderNumber_idx" ON "Message"("whatsappSessionId", "senderNumber");
+
+-- CreateIndex
+CREATE INDEX "Message_whatsappSessionId_recipientNumber_idx" ON "Message"("whatsappSessionId", "recipientNumber");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "readAt" TIMESTAMP(3);
+
+-- Messages received before the inbox existed should not all show up as unread
+UPDATE "Message" SET "readAt" = "createdAt" WHERE "direction" = 'inbound';
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Message" ALTER COLUMN "encryptedAtRest" SET DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Appointment" ALTER COLUMN "encryptedAtRest" SET DEFAULT false;
+
+-- Rows written before field encryption are plain text until `npm run reencrypt` processes them
+UPDATE "Message" SET "encryptedAtRest" = false WHERE "content" NOT LIKE 'enc:%';
+UPDATE "Appointment" SET "encryptedAtRest" = false WHERE "patientName" NOT LIKE 'enc:%' OR "patientPhone" NOT LIKE 'enc:%';
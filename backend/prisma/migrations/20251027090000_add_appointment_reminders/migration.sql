@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AppointmentReminder" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "messageId" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_status_appointmentDate_idx" ON "Appointment"("status", "appointmentDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentReminder_appointmentId_offsetMinutes_key" ON "AppointmentReminder"("appointmentId", "offsetMinutes");
+
+-- AddForeignKey
+ALTER TABLE "AppointmentReminder" ADD CONSTRAINT "AppointmentReminder_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
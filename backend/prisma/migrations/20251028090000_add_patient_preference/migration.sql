@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PatientPreference" (
+    "id" TEXT NOT NULL,
+    "whatsappSessionId" TEXT NOT NULL,
+    "patientNumber" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "languageExplicit" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatientPreference_whatsappSessionId_patientNumber_key" ON "PatientPreference"("whatsappSessionId", "patientNumber");
+
+-- AddForeignKey
+ALTER TABLE "PatientPreference" ADD CONSTRAINT "PatientPreference_whatsappSessionId_fkey" FOREIGN KEY ("whatsappSessionId") REFERENCES "WhatsappSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
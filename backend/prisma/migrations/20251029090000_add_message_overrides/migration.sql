@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ClinicSetting" ADD COLUMN     "messageOverrides" JSONB;
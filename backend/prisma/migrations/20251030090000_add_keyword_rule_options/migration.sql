@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "CustomKeyword" ADD COLUMN     "activeDays" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "activeFrom" TEXT,
+ADD COLUMN     "activeTo" TEXT,
+ADD COLUMN     "followUpIntent" TEXT,
+ADD COLUMN     "matchMode" TEXT NOT NULL DEFAULT 'contains',
+ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "synonyms" TEXT[] DEFAULT ARRAY[]::TEXT[];
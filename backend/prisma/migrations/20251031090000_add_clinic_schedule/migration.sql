@@ -0,0 +1,27 @@
+-- Working hours that older versions saved as a JSON string become objects
+UPDATE "ClinicSetting"
+SET "workingHours" = ("workingHours" #>> '{}')::jsonb
+WHERE jsonb_typeof("workingHours") = 'string' AND ("workingHours" #>> '{}') LIKE '{%}';
+
+-- AlterTable
+ALTER TABLE "ClinicSetting" ADD COLUMN     "timezone" TEXT;
+
+-- CreateTable
+CREATE TABLE "ClinicClosure" (
+    "id" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reasonEn" TEXT,
+    "reasonAr" TEXT,
+    "clinicSettingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClinicClosure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClinicClosure_clinicSettingId_endDate_idx" ON "ClinicClosure"("clinicSettingId", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "ClinicClosure" ADD CONSTRAINT "ClinicClosure_clinicSettingId_fkey" FOREIGN KEY ("clinicSettingId") REFERENCES "ClinicSetting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
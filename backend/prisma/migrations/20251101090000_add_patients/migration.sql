@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "patientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "patientId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Patient" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "alternatePhones" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "name" TEXT,
+    "whatsappName" TEXT,
+    "preferredLanguage" TEXT,
+    "notes" TEXT,
+    "reminderConsent" BOOLEAN NOT NULL DEFAULT true,
+    "marketingConsent" BOOLEAN NOT NULL DEFAULT false,
+    "lastMessageAt" TIMESTAMP(3),
+    "encryptedAtRest" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Patient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_patientId_idx" ON "Appointment"("patientId");
+
+-- CreateIndex
+CREATE INDEX "Message_patientId_timestamp_idx" ON "Message"("patientId", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Patient_userId_phone_key" ON "Patient"("userId", "phone");
+
+-- CreateIndex
+CREATE INDEX "Patient_userId_lastMessageAt_idx" ON "Patient"("userId", "lastMessageAt");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Patient" ADD CONSTRAINT "Patient_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Create a patient for everyone who has written to a clinic
+INSERT INTO "Patient" ("id", "userId", "phone", "lastMessageAt", "updatedAt")
+SELECT gen_random_uuid()::text, s."userId", '+' || regexp_replace(split_part(m."senderNumber", '@', 1), '\D', '', 'g'), MAX(m."timestamp"), CURRENT_TIMESTAMP
+FROM "Message" m
+JOIN "WhatsappSession" s ON s."id" = m."whatsappSessionId"
+WHERE m."direction" = 'inbound' AND m."senderNumber" LIKE '%@s.whatsapp.net'
+GROUP BY s."userId", '+' || regexp_replace(split_part(m."senderNumber", '@', 1), '\D', '', 'g');
+
+-- Link their messages in both directions
+UPDATE "Message" m
+SET "patientId" = p."id"
+FROM "WhatsappSession" s, "Patient" p
+WHERE s."id" = m."whatsappSessionId"
+  AND p."userId" = s."userId"
+  AND p."phone" = '+' || regexp_replace(split_part(CASE WHEN m."direction" = 'inbound' THEN m."senderNumber" ELSE m."recipientNumber" END, '@', 1), '\D', '', 'g');
+
+-- Link appointments whose phone is still stored in plain text; encrypted phones cannot be read here
+UPDATE "Appointment" a
+SET "patientId" = p."id"
+FROM "Patient" p
+WHERE a."encryptedAtRest" = false
+  AND p."userId" = a."userId"
+  AND p."phone" = '+' || regexp_replace(a."patientPhone", '\D', '', 'g');
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "mediaKey" TEXT,
+ADD COLUMN     "metadata" JSONB;
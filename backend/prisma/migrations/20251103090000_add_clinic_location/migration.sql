@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ClinicSetting" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION,
+ADD COLUMN     "priceListImageUrl" TEXT;
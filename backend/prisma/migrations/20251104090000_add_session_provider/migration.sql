@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WhatsappSession" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'wasender';
@@ -0,0 +1,2 @@
+-- Processed events are only kept for deduplication, so their payloads are not needed
+UPDATE "WebhookEvent" SET "payload" = NULL WHERE "status" = 'processed';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "handledAt" TIMESTAMP(3);
+
+-- Inbound messages received so far were answered when they arrived
+UPDATE "Message" SET "handledAt" = "createdAt" WHERE "direction" = 'inbound';
@@ -0,0 +1,13 @@
+-- DropIndex
+DROP INDEX "Patient_userId_phone_key";
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "alternatePhoneHashes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "phoneHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Patient_userId_phoneHash_key" ON "Patient"("userId", "phoneHash");
+
+-- Phone numbers, names and WhatsApp names are now encrypted like notes. The hashes need the blind
+-- index key, so existing patients get them, and their details encrypted, from `npm run reencrypt`;
+-- until then they are still found by their plain text number.
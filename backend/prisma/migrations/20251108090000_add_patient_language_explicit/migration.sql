@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "languageExplicit" BOOLEAN NOT NULL DEFAULT false;
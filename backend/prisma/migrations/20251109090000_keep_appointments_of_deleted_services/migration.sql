@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "Appointment" DROP CONSTRAINT "Appointment_serviceId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "Service"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- Deleting a service used to delete its appointments, past ones included. A service with appointments
+-- can no longer be deleted; deleting a clinic still removes its services and appointments together.
@@ -0,0 +1,131 @@
+// src/__tests__/appointment.test.ts
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { app } from '../server';
+
+const prisma = new PrismaClient();
+
+describe('Appointment API', () => {
+    let authToken: string;
+    let serviceId: string;
+    let appointmentId: string;
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'appointment-test@example.com'
+            }
+        });
+
+        const registerResponse = await request(app)
+            .post('/api/auth/register')
+            .send({
+                email: 'appointment-test@example.com',
+                password: 'password123',
+                clinicName: 'Test Appointment Clinic',
+            });
+
+        authToken = registerResponse.body.token;
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId: registerResponse.body.user.id }
+        });
+
+        const service = await prisma.service.create({
+            data: {
+                nameEn: 'Cleaning',
+                price: 50,
+                currency: 'USD',
+                duration: 60,
+                clinicSettingId: clinicSetting!.id
+            }
+        });
+        serviceId = service.id;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'appointment-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should create an appointment', async () => {
+        const response = await request(app)
+            .post('/api/appointments')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                patientName: 'Jane Doe',
+                patientPhone: '+1234567890',
+                serviceId,
+                appointmentDate: '2030-01-07T10:00:00.000Z'
+            })
+            .expect(201);
+
+        expect(response.body.appointment).toHaveProperty('status', 'scheduled');
+        appointmentId = response.body.appointment.id;
+    });
+
+    it('should reject an appointment that overlaps an existing one', async () => {
+        const response = await request(app)
+            .post('/api/appointments')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                patientName: 'John Doe',
+                patientPhone: '+1234567891',
+                serviceId,
+                appointmentDate: '2030-01-07T10:30:00.000Z'
+            })
+            .expect(409);
+
+        expect(response.body).toHaveProperty('error', 'The requested time overlaps another appointment');
+    });
+
+    it('should give a slot to only one of two patients booking it at the same time', async () => {
+        const book = (patientPhone: string) => request(app)
+            .post('/api/appointments')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ patientName: 'Same Slot', patientPhone, serviceId, appointmentDate: '2030-01-08T14:00:00.000Z' });
+
+        const responses = await Promise.all([book('+1234567892'), book('+1234567893')]);
+
+        expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+    });
+
+    it('should list appointments filtered by date range and status', async () => {
+        const response = await request(app)
+            .get('/api/appointments')
+            .query({ from: '2030-01-07T00:00:00.000Z', to: '2030-01-08T00:00:00.000Z', status: 'scheduled' })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(response.body).toHaveLength(1);
+        expect(response.body[0]).toHaveProperty('id', appointmentId);
+    });
+
+    it('should reschedule an appointment', async () => {
+        const response = await request(app)
+            .patch(`/api/appointments/${appointmentId}/reschedule`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ appointmentDate: '2030-01-07T10:30:00.000Z' })
+            .expect(200);
+
+        expect(response.body.appointment).toHaveProperty('appointmentDate', '2030-01-07T10:30:00.000Z');
+    });
+
+    it('should complete and then refuse to cancel an appointment', async () => {
+        await request(app)
+            .patch(`/api/appointments/${appointmentId}/complete`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        const response = await request(app)
+            .patch(`/api/appointments/${appointmentId}/cancel`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Appointment is already completed');
+    });
+});
@@ -0,0 +1,57 @@
+// src/__tests__/booking.test.ts
+import bookingService from '../services/bookingService';
+
+describe('Booking slot computation', () => {
+    // Monday 6 January 2025, 08:00 local time
+    const monday = new Date(2025, 0, 6, 8, 0);
+    const workingHours = {
+        monday: { open: '09:00', close: '11:00' },
+        tuesday: { open: '09:00', close: '10:00' }
+    };
+
+    it('should propose slots inside working hours that fit the service duration', () => {
+        const slots = bookingService.findAvailableSlots(workingHours, 60, [], { from: monday, days: 1, limit: 10 });
+
+        expect(slots.map((slot) => slot.getHours() * 60 + slot.getMinutes())).toEqual([540, 570, 600]);
+    });
+
+    it('should skip slots that overlap existing appointments', () => {
+        const booked = [{ appointmentDate: new Date(2025, 0, 6, 9, 30), duration: 30 }];
+        const slots = bookingService.findAvailableSlots(workingHours, 30, booked, { from: monday, days: 1, limit: 10 });
+
+        expect(slots.map((slot) => slot.getHours() * 60 + slot.getMinutes())).toEqual([540, 600, 630]);
+    });
+
+    it('should skip closed days and past times and respect the limit', () => {
+        const from = new Date(2025, 0, 6, 10, 15);
+        const slots = bookingService.findAvailableSlots(workingHours, 30, [], { from, days: 7, limit: 3 });
+
+        expect(slots).toEqual([
+            new Date(2025, 0, 6, 10, 30),
+            new Date(2025, 0, 7, 9, 0),
+            new Date(2025, 0, 7, 9, 30)
+        ]);
+    });
+
+    it('should skip breaks and closure days', () => {
+        const withBreak = { monday: { open: '09:00', close: '11:00', breaks: [{ start: '09:30', end: '10:30' }] }, tuesday: workingHours.tuesday };
+        const closures = [{ startDate: '2025-01-06', endDate: '2025-01-06' }];
+
+        expect(bookingService.findAvailableSlots(withBreak, 30, [], { from: monday, days: 1, limit: 10 }))
+            .toEqual([new Date(2025, 0, 6, 9, 0), new Date(2025, 0, 6, 10, 30)]);
+        expect(bookingService.findAvailableSlots(workingHours, 30, [], { from: monday, days: 2, limit: 10, closures }))
+            .toEqual([new Date(2025, 0, 7, 9, 0), new Date(2025, 0, 7, 9, 30)]);
+    });
+
+    it('should place slots on the clinic clock', () => {
+        // 05:00 UTC is 09:00 in Dubai (UTC+4, no daylight saving)
+        const from = new Date(Date.UTC(2025, 0, 6, 0, 0));
+        const slots = bookingService.findAvailableSlots(workingHours, 60, [], { from, days: 1, limit: 10, timeZone: 'Asia/Dubai' });
+
+        expect(slots.map((slot) => slot.toISOString())).toEqual([
+            '2025-01-06T05:00:00.000Z',
+            '2025-01-06T05:30:00.000Z',
+            '2025-01-06T06:00:00.000Z'
+        ]);
+    });
+});
@@ -0,0 +1,151 @@
+// src/__tests__/botSimulator.test.ts
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { app } from '../server';
+
+const prisma = new PrismaClient();
+
+// Mock the wasenderService
+jest.mock('../services/wasenderService');
+import wasenderService from '../services/wasenderService';
+
+describe('Bot simulator API', () => {
+    let authToken: string;
+    let userId: string;
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'simulator-test@example.com'
+            }
+        });
+
+        const registerResponse = await request(app)
+            .post('/api/auth/register')
+            .send({
+                email: 'simulator-test@example.com',
+                password: 'password123',
+                clinicName: 'Test Simulator Clinic',
+                clinicPhone: '+1234567890'
+            });
+
+        authToken = registerResponse.body.token;
+        userId = registerResponse.body.user.id;
+
+        await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ workingHours: { monday: { open: '09:00', close: '17:00' } } });
+
+        await request(app)
+            .post('/api/clinic-settings/services')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ nameEn: 'Cleaning', nameAr: 'تنظيف', price: 50, duration: 30 });
+
+        await request(app)
+            .post('/api/clinic-settings/keywords')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ keyword: 'parking', matchMode: 'word', responseEn: 'Free parking behind the clinic.' });
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'simulator-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should report the matched keyword rule and reply', async () => {
+        const response = await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'Is there parking?' })
+            .expect(200);
+
+        expect(response.body).toMatchObject({
+            language: 'en',
+            match: { source: 'keyword', keyword: 'parking' },
+            reply: 'Free parking behind the clinic.',
+            actions: []
+        });
+    });
+
+    it('should report the classified intent in the detected language', async () => {
+        const response = await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'أريد حجز موعد' })
+            .expect(200);
+
+        expect(response.body.language).toBe('ar');
+        expect(response.body.match).toMatchObject({ source: 'intent', intent: 'booking', confidence: 1 });
+        expect(response.body.state).toMatchObject({ flow: 'booking', step: 'selectService' });
+    });
+
+    it('should continue from a given state without booking anything', async () => {
+        const slot = new Date(Date.now() + 7 * 24 * 60 * 60000).toISOString();
+        const service = await prisma.service.findFirst({ where: { clinicSetting: { userId } } });
+
+        const response = await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                message: 'yes',
+                state: { flow: 'booking', step: 'confirm', data: { serviceId: service!.id, slot, patientName: 'Jane Doe' } }
+            })
+            .expect(200);
+
+        expect(response.body.match).toEqual({ source: 'booking' });
+        expect(response.body.state).toBeNull();
+        expect(response.body.actions).toEqual([
+            expect.objectContaining({ action: 'appointment.create', data: expect.objectContaining({ patientName: 'Jane Doe' }) })
+        ]);
+        expect(await prisma.appointment.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should record a handoff without alerting staff', async () => {
+        const response = await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'I want to talk to a human' })
+            .expect(200);
+
+        expect(response.body.match).toMatchObject({ source: 'intent', intent: 'human' });
+        expect(response.body.actions).toEqual([{ action: 'handoff.start' }]);
+        expect(response.body.state).toMatchObject({ flow: 'handoff' });
+        expect(wasenderService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send the clinic location as a map pin when coordinates are set', async () => {
+        await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ latitude: 25.2048, longitude: 55.2708 })
+            .expect(200);
+
+        const response = await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'What is your address?' })
+            .expect(200);
+
+        expect(response.body.reply).toBe('');
+        expect(response.body.attachments).toEqual([
+            { type: 'location', latitude: 25.2048, longitude: 55.2708, name: 'Test Simulator Clinic' }
+        ]);
+    });
+
+    it('should reject a message without text', async () => {
+        await request(app)
+            .post('/api/bot/simulate')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: ' ' })
+            .expect(400);
+    });
+});
@@ -0,0 +1,244 @@
+// src/__tests__/clinicSettings.test.ts
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { app } from '../server';
+
+const prisma = new PrismaClient();
+
+describe('Clinic Settings API', () => {
+    let authToken: string;
+    const serviceIds: string[] = [];
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'settings-test@example.com'
+            }
+        });
+
+        const registerResponse = await request(app)
+            .post('/api/auth/register')
+            .send({
+                email: 'settings-test@example.com',
+                password: 'password123',
+                clinicName: 'Test Settings Clinic',
+                currency: 'AED'
+            });
+
+        authToken = registerResponse.body.token;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'settings-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should update the greeting and working hours', async () => {
+        const response = await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                greetingMessageEn: 'Welcome!',
+                workingHours: { sunday: { open: '09:00', close: '17:00' }, friday: null }
+            })
+            .expect(200);
+
+        expect(response.body.clinicSetting).toHaveProperty('greetingMessageEn', 'Welcome!');
+        expect(response.body.clinicSetting.workingHours).toHaveProperty('sunday', { open: '09:00', close: '17:00' });
+    });
+
+    it('should reject malformed working hours', async () => {
+        const response = await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ workingHours: { sunday: { open: '17:00', close: '09:00' } } })
+            .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Opening time for sunday must be before closing time');
+    });
+
+    it('should create services with the clinic currency by default', async () => {
+        for (const nameEn of ['Cleaning', 'Whitening']) {
+            const response = await request(app)
+                .post('/api/clinic-settings/services')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ nameEn, price: 100, duration: 30 })
+                .expect(201);
+
+            expect(response.body.service).toHaveProperty('currency', 'AED');
+            serviceIds.push(response.body.service.id);
+        }
+    });
+
+    it('should reorder services', async () => {
+        await request(app)
+            .put('/api/clinic-settings/services/reorder')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ ids: [serviceIds[1], serviceIds[0]] })
+            .expect(200);
+
+        const response = await request(app)
+            .get('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(response.body.services.map((service: any) => service.nameEn)).toEqual(['Whitening', 'Cleaning']);
+    });
+
+    it('should not delete a service that has appointments, even past ones', async () => {
+        const user = await prisma.user.findUniqueOrThrow({ where: { email: 'settings-test@example.com' } });
+        await prisma.appointment.create({
+            data: {
+                userId: user.id,
+                serviceId: serviceIds[0],
+                patientName: 'Layla',
+                patientPhone: '+971501234567',
+                appointmentDate: new Date('2025-01-05T09:00:00Z'),
+                status: 'completed'
+            }
+        });
+
+        const response = await request(app)
+            .delete(`/api/clinic-settings/services/${serviceIds[0]}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(409);
+
+        expect(response.body).toHaveProperty('error', 'Service has appointments and cannot be deleted');
+        expect(await prisma.appointment.count({ where: { serviceId: serviceIds[0] } })).toBe(1);
+
+        await request(app)
+            .delete(`/api/clinic-settings/services/${serviceIds[1]}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+    });
+
+    it('should create, update and delete a custom keyword', async () => {
+        const createResponse = await request(app)
+            .post('/api/clinic-settings/keywords')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ keyword: 'parking', responseEn: 'Free parking behind the clinic.' })
+            .expect(201);
+
+        const keywordId = createResponse.body.keyword.id;
+
+        const updateResponse = await request(app)
+            .put(`/api/clinic-settings/keywords/${keywordId}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ responseAr: 'موقف مجاني خلف العيادة.' })
+            .expect(200);
+
+        expect(updateResponse.body.keyword).toHaveProperty('responseAr', 'موقف مجاني خلف العيادة.');
+
+        await request(app)
+            .delete(`/api/clinic-settings/keywords/${keywordId}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+    });
+
+    it('should dry-run keyword rules by priority and active hours', async () => {
+        await request(app)
+            .post('/api/clinic-settings/keywords')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ keyword: 'price', matchMode: 'word', responseEn: 'See our price list.' })
+            .expect(201);
+
+        const implantResponse = await request(app)
+            .post('/api/clinic-settings/keywords')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                keyword: 'implant',
+                synonyms: ['implants', 'زراعة'],
+                matchMode: 'word',
+                priority: 5,
+                followUpIntent: 'booking',
+                responseEn: 'Implants start with a free consultation.',
+                activeFrom: '08:00',
+                activeTo: '20:00'
+            })
+            .expect(201);
+
+        await request(app)
+            .post('/api/clinic-settings/keywords')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ keyword: '(unclosed', matchMode: 'regex', responseEn: 'Broken' })
+            .expect(400);
+
+        const daytime = new Date();
+        daytime.setHours(12, 0, 0, 0);
+        const dayResponse = await request(app)
+            .post('/api/clinic-settings/keywords/test')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'What is the price of implants?', at: daytime.toISOString() })
+            .expect(200);
+
+        expect(dayResponse.body.match).toMatchObject({
+            id: implantResponse.body.keyword.id,
+            matchedTerm: 'implants',
+            followUpIntent: 'booking',
+            response: 'Implants start with a free consultation.'
+        });
+
+        const night = new Date();
+        night.setHours(23, 0, 0, 0);
+        const nightResponse = await request(app)
+            .post('/api/clinic-settings/keywords/test')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ message: 'What is the price of implants?', at: night.toISOString() })
+            .expect(200);
+
+        expect(nightResponse.body.match).toHaveProperty('keyword', 'price');
+        expect(nightResponse.body.inactiveMatches.map((rule: any) => rule.keyword)).toEqual(['implant']);
+    });
+
+    it('should set the time zone and manage closures', async () => {
+        await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ timezone: 'Mars/Olympus' })
+            .expect(400);
+
+        const settingsResponse = await request(app)
+            .put('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ timezone: 'Asia/Dubai' })
+            .expect(200);
+        expect(settingsResponse.body.clinicSetting.timezone).toBe('Asia/Dubai');
+
+        await request(app)
+            .post('/api/clinic-settings/closures')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ startDate: '2025-12-26', endDate: '2025-12-25' })
+            .expect(400);
+
+        const createResponse = await request(app)
+            .post('/api/clinic-settings/closures')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ startDate: '2025-12-25', reasonEn: 'Holiday' })
+            .expect(201);
+        const closureId = createResponse.body.closure.id;
+        expect(createResponse.body.closure.endDate).toBe('2025-12-25T00:00:00.000Z');
+
+        await request(app)
+            .put(`/api/clinic-settings/closures/${closureId}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ endDate: '2025-12-27' })
+            .expect(200);
+
+        const getResponse = await request(app)
+            .get('/api/clinic-settings')
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+        expect(getResponse.body.closures).toEqual([
+            expect.objectContaining({ startDate: '2025-12-25T00:00:00.000Z', endDate: '2025-12-27T00:00:00.000Z', reasonEn: 'Holiday' })
+        ]);
+
+        await request(app)
+            .delete(`/api/clinic-settings/closures/${closureId}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+    });
+});
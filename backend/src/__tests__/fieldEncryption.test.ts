@@ -0,0 +1,98 @@
+// src/__tests__/fieldEncryption.test.ts
+import crypto from 'crypto';
+import { blindIndex, decryptField, encryptField, getKeyId, isEncryptionEnabled, needsReencryption } from '../utils/fieldEncryption';
+
+describe('Field encryption', () => {
+    const oldKey = crypto.randomBytes(32).toString('base64');
+    const newKey = crypto.randomBytes(32).toString('base64');
+
+    beforeEach(() => {
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${oldKey}`;
+        delete process.env.FIELD_ENCRYPTION_KEY_ID;
+    });
+
+    afterAll(() => {
+        delete process.env.FIELD_ENCRYPTION_KEYS;
+        delete process.env.FIELD_ENCRYPTION_KEY_ID;
+    });
+
+    it('should round-trip values without storing the plain text', () => {
+        const encrypted = encryptField('مرحبا, I have a toothache');
+
+        expect(encrypted).not.toContain('toothache');
+        expect(getKeyId(encrypted)).toBe('k1');
+        expect(decryptField(encrypted)).toBe('مرحبا, I have a toothache');
+    });
+
+    it('should use a fresh IV for every value', () => {
+        expect(encryptField('same text')).not.toBe(encryptField('same text'));
+    });
+
+    it('should return values written before encryption unchanged', () => {
+        expect(decryptField('plain text')).toBe('plain text');
+        expect(needsReencryption('plain text')).toBe(true);
+    });
+
+    it('should reject tampered values', () => {
+        const encrypted = encryptField('+15550001111');
+        const parts = encrypted.split(':');
+        const ciphertext = Buffer.from(parts[4], 'base64');
+        ciphertext[0] ^= 1;
+        parts[4] = ciphertext.toString('base64');
+
+        expect(() => decryptField(parts.join(':'))).toThrow();
+    });
+
+    it('should keep reading old values after a key rotation', () => {
+        const encryptedWithOldKey = encryptField('Jane Doe');
+
+        process.env.FIELD_ENCRYPTION_KEYS = `k2:${newKey},k1:${oldKey}`;
+
+        expect(needsReencryption(encryptedWithOldKey)).toBe(true);
+        expect(decryptField(encryptedWithOldKey)).toBe('Jane Doe');
+        expect(getKeyId(encryptField('Jane Doe'))).toBe('k2');
+    });
+
+    it('should fail on values whose key was removed', () => {
+        const encrypted = encryptField('Jane Doe');
+
+        process.env.FIELD_ENCRYPTION_KEYS = `k2:${newKey}`;
+
+        expect(() => decryptField(encrypted)).toThrow('Field encryption key "k1" is not configured');
+    });
+
+    it('should reject misconfigured keys', () => {
+        process.env.FIELD_ENCRYPTION_KEYS = 'k1:too-short';
+        expect(() => encryptField('x')).toThrow('Invalid FIELD_ENCRYPTION_KEYS entry');
+
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${oldKey}`;
+        process.env.FIELD_ENCRYPTION_KEY_ID = 'k9';
+        expect(() => encryptField('x')).toThrow('FIELD_ENCRYPTION_KEY_ID "k9" is not in FIELD_ENCRYPTION_KEYS');
+    });
+
+    it('should require keys in production', () => {
+        const nodeEnv = process.env.NODE_ENV;
+        delete process.env.FIELD_ENCRYPTION_KEYS;
+
+        try {
+            process.env.NODE_ENV = 'production';
+            expect(() => isEncryptionEnabled()).toThrow('FIELD_ENCRYPTION_KEYS must be set in production');
+        } finally {
+            process.env.NODE_ENV = nodeEnv;
+        }
+    });
+
+    it('should hash values for lookups with the blind index key', () => {
+        const unkeyed = blindIndex('+971501234567');
+        expect(blindIndex('+971501234567')).toBe(unkeyed);
+        expect(unkeyed).not.toContain('971501234567');
+
+        try {
+            process.env.FIELD_BLIND_INDEX_KEY = newKey;
+            expect(blindIndex('+971501234567')).not.toBe(unkeyed);
+            expect(blindIndex('+971501234567')).toBe(blindIndex('+971501234567'));
+        } finally {
+            delete process.env.FIELD_BLIND_INDEX_KEY;
+        }
+    });
+});
@@ -0,0 +1,361 @@
+// src/__tests__/inbox.test.ts
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { app } from '../server';
+import mediaService from '../services/mediaService';
+import { FileMediaStore, getMediaStore, setMediaStore } from '../services/mediaStore';
+import { loadSessionForProcessing, processWebhookEvent } from '../services/webhookProcessor';
+
+const prisma = new PrismaClient();
+
+// Mock the wasenderService
+jest.mock('../services/wasenderService');
+import wasenderService from '../services/wasenderService';
+
+describe('Inbox API', () => {
+    const patient = '15550001111@s.whatsapp.net';
+    let authToken: string;
+    let sessionId: string;
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'inbox-test@example.com'
+            }
+        });
+
+        const registerResponse = await request(app)
+            .post('/api/auth/register')
+            .send({
+                email: 'inbox-test@example.com',
+                password: 'password123',
+                clinicName: 'Test Inbox Clinic',
+            });
+
+        authToken = registerResponse.body.token;
+
+        const session = await prisma.whatsappSession.create({
+            data: {
+                userId: registerResponse.body.user.id,
+                sessionId: '1',
+                apiKey: 'test-api-key',
+                webhookSecret: 'test-webhook-secret',
+                phoneNumber: '+1234567890',
+                status: 'connected'
+            }
+        });
+        sessionId = session.id;
+
+        for (let minute = 0; minute < 3; minute++) {
+            await prisma.message.create({
+                data: {
+                    whatsappSessionId: sessionId,
+                    senderNumber: patient,
+                    recipientNumber: '+1234567890',
+                    messageType: 'text',
+                    content: `Question ${minute + 1}`,
+                    direction: 'inbound',
+                    status: 'received',
+                    timestamp: new Date(Date.UTC(2030, 0, 1, 9, minute))
+                }
+            });
+        }
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'inbox-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should list conversations with unread counts and the last message', async () => {
+        const response = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(response.body).toHaveLength(1);
+        expect(response.body[0]).toMatchObject({ patientNumber: patient, unreadCount: 3 });
+        expect(response.body[0].lastMessage).toHaveProperty('content', 'Question 3');
+    });
+
+    it('should page through conversations, latest first', async () => {
+        await prisma.message.create({
+            data: {
+                whatsappSessionId: sessionId,
+                senderNumber: '+1234567890',
+                recipientNumber: '15550002222@s.whatsapp.net',
+                messageType: 'text',
+                content: 'Your appointment is tomorrow',
+                direction: 'outbound',
+                status: 'sent',
+                timestamp: new Date(Date.UTC(2030, 0, 1, 10, 0))
+            }
+        });
+
+        const firstPage = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .query({ limit: 1 })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(firstPage.body).toHaveLength(1);
+        expect(firstPage.body[0]).toMatchObject({ patientNumber: '15550002222@s.whatsapp.net', unreadCount: 0 });
+        expect(firstPage.body[0].lastMessage).toHaveProperty('content', 'Your appointment is tomorrow');
+
+        const secondPage = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .query({ limit: 1, offset: 1 })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(secondPage.body).toHaveLength(1);
+        expect(secondPage.body[0]).toMatchObject({ patientNumber: patient, unreadCount: 3 });
+    });
+
+    it('should page through a thread and mark it read', async () => {
+        const firstPage = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .query({ limit: 2 })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(firstPage.body.messages.map((message: any) => message.content)).toEqual(['Question 2', 'Question 3']);
+        expect(firstPage.body.nextBefore).not.toBeNull();
+
+        const secondPage = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .query({ limit: 2, before: firstPage.body.nextBefore })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(secondPage.body.messages.map((message: any) => message.content)).toEqual(['Question 1']);
+        expect(secondPage.body.nextBefore).toBeNull();
+
+        const conversations = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(conversations.body[0]).toHaveProperty('unreadCount', 0);
+    });
+
+    it('should send a manual reply and record it as outbound', async () => {
+        (wasenderService.sendMessage as jest.MockedFunction<any>).mockResolvedValue({
+            success: true,
+            data: { msgId: 42, status: 'in_progress' }
+        });
+
+        const response = await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ text: 'We open at 9am.' })
+            .expect(201);
+
+        expect(wasenderService.sendMessage).toHaveBeenCalledWith('test-api-key', { to: '15550001111', text: 'We open at 9am.' });
+        expect(response.body.reply).toMatchObject({
+            direction: 'outbound',
+            recipientNumber: patient,
+            providerMessageId: '42'
+        });
+    });
+
+    it('should report failed sends with the provider\'s details', async () => {
+        const upstream = { error: { message: 'Recipient phone number not in allowed list', code: 131030 } };
+        (wasenderService.sendMessage as jest.MockedFunction<any>)
+            .mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 400'), { response: { status: 400, data: upstream } }))
+            .mockRejectedValueOnce(new Error('socket hang up'));
+
+        const detailed = await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ text: 'Are you still there?' })
+            .expect(502);
+        expect(detailed.body.error).toEqual(upstream);
+
+        const generic = await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ text: 'Are you still there?' })
+            .expect(502);
+        expect(generic.body.error).toBe('Failed to send message through wasender');
+    });
+
+    it('should send a document with a caption', async () => {
+        (wasenderService.sendDocument as jest.MockedFunction<any>).mockResolvedValue({
+            success: true,
+            data: { msgId: 43, status: 'in_progress' }
+        });
+
+        const response = await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ type: 'document', url: 'https://example.com/pre-op.pdf', fileName: 'pre-op.pdf', caption: 'Please read before your visit' })
+            .expect(201);
+
+        expect(wasenderService.sendDocument).toHaveBeenCalledWith('test-api-key', {
+            to: '15550001111',
+            documentUrl: 'https://example.com/pre-op.pdf',
+            fileName: 'pre-op.pdf',
+            caption: 'Please read before your visit'
+        });
+        expect(response.body.reply).toMatchObject({
+            messageType: 'document',
+            content: 'Please read before your visit',
+            metadata: { url: 'https://example.com/pre-op.pdf', fileName: 'pre-op.pdf' }
+        });
+
+        await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ type: 'document', url: 'not a url' })
+            .expect(400);
+    });
+
+    it('should pause the bot for a conversation and hand it back', async () => {
+        await request(app)
+            .post(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/handoff`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        const waiting = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .query({ needsAttention: 'true' })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(waiting.body).toHaveLength(1);
+        expect(waiting.body[0]).toMatchObject({ patientNumber: patient, needsAttention: true });
+
+        await request(app)
+            .delete(`/api/whatsapp-sessions/${sessionId}/conversations/15550001111/handoff`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        const afterRelease = await request(app)
+            .get(`/api/whatsapp-sessions/${sessionId}/conversations`)
+            .query({ needsAttention: 'true' })
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(afterRelease.body).toHaveLength(0);
+    });
+
+    it('should keep an inbound voice note and acknowledge it', async () => {
+        const voicePatient = '15550003333@s.whatsapp.net';
+        (wasenderService.decryptMedia as jest.Mock).mockRejectedValueOnce(new Error('Media expired'));
+
+        await processWebhookEvent({
+            event: 'messages.received',
+            timestamp: Math.floor(Date.now() / 1000),
+            data: {
+                key: { id: 'voice_1', fromMe: false, remoteJid: voicePatient },
+                message: { audioMessage: { mimetype: 'audio/ogg; codecs=opus', seconds: 7, ptt: true } }
+            }
+        }, await loadSessionForProcessing(sessionId));
+
+        const voiceNote = await prisma.message.findFirstOrThrow({ where: { whatsappSessionId: sessionId, providerMessageId: 'voice_1' } });
+        expect(voiceNote).toMatchObject({ messageType: 'audio', content: '', mediaKey: null });
+        expect(voiceNote.metadata).toMatchObject({ seconds: 7, voiceNote: true, mediaError: 'Media expired' });
+
+        expect(wasenderService.sendMessage).toHaveBeenCalledWith('test-api-key', {
+            to: '15550003333',
+            text: expect.stringContaining('voice message')
+        });
+    });
+
+    it('should not run the bot again when an event is retried after a failed reply', async () => {
+        const retryPatient = '15550004444@s.whatsapp.net';
+        const event = {
+            event: 'messages.received',
+            timestamp: Math.floor(Date.now() / 1000),
+            data: {
+                key: { id: 'retry_1', fromMe: false, remoteJid: retryPatient },
+                message: { conversation: 'Hello' }
+            }
+        };
+        (wasenderService.sendMessage as jest.Mock).mockClear();
+        (wasenderService.sendMessage as jest.Mock).mockRejectedValueOnce(new Error('Service unavailable'));
+
+        const session = await loadSessionForProcessing(sessionId);
+        await expect(processWebhookEvent(event, session)).rejects.toThrow('Service unavailable');
+        await processWebhookEvent(event, session);
+
+        expect(wasenderService.sendMessage).toHaveBeenCalledTimes(1);
+        const inbound = await prisma.message.findMany({ where: { whatsappSessionId: sessionId, providerMessageId: 'retry_1' } });
+        expect(inbound).toHaveLength(1);
+        expect(inbound[0].handledAt).not.toBeNull();
+
+        const replies = await prisma.message.findMany({ where: { whatsappSessionId: sessionId, direction: 'outbound', recipientNumber: retryPatient } });
+        expect(replies.map((reply) => reply.status)).toEqual(['failed']);
+    });
+
+    it('should serve the stored file of a media message', async () => {
+        const originalStore = getMediaStore();
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'inbox-media-'));
+        setMediaStore(new FileMediaStore(root));
+
+        try {
+            await mediaService.save(`${sessionId}/scan.pdf`, Buffer.from('%PDF-1.4'));
+            const message = await prisma.message.create({
+                data: {
+                    whatsappSessionId: sessionId,
+                    senderNumber: patient,
+                    recipientNumber: '+1234567890',
+                    messageType: 'document',
+                    content: '',
+                    metadata: { mimeType: 'application/pdf', fileName: 'أشعة.pdf' },
+                    mediaKey: `${sessionId}/scan.pdf`,
+                    direction: 'inbound',
+                    status: 'received'
+                }
+            });
+
+            const response = await request(app)
+                .get(`/api/whatsapp-sessions/${sessionId}/messages/${message.id}/media`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .buffer(true)
+                .expect(200);
+
+            expect(response.headers['content-type']).toBe('application/pdf');
+            expect(response.headers['content-disposition']).toBe(`inline; filename*=UTF-8''${encodeURIComponent('أشعة.pdf')}`);
+            expect(response.headers['x-content-type-options']).toBe('nosniff');
+            expect(Buffer.from(response.body).toString()).toBe('%PDF-1.4');
+
+            // A "document" the browser would render, such as HTML, is only offered as a download
+            await mediaService.save(`${sessionId}/page.html`, Buffer.from('<script>alert(1)</script>'));
+            const page = await prisma.message.create({
+                data: {
+                    whatsappSessionId: sessionId,
+                    senderNumber: patient,
+                    recipientNumber: '+1234567890',
+                    messageType: 'document',
+                    content: '',
+                    metadata: { mimeType: 'text/html', fileName: 'page.html' },
+                    mediaKey: `${sessionId}/page.html`,
+                    direction: 'inbound',
+                    status: 'received'
+                }
+            });
+
+            const download = await request(app)
+                .get(`/api/whatsapp-sessions/${sessionId}/messages/${page.id}/media`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .buffer(true)
+                .expect(200);
+
+            expect(download.headers['content-type']).toBe('application/octet-stream');
+            expect(download.headers['content-disposition']).toBe(`attachment; filename*=UTF-8''page.html`);
+            expect(download.headers['x-content-type-options']).toBe('nosniff');
+        } finally {
+            setMediaStore(originalStore);
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
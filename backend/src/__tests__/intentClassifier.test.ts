@@ -0,0 +1,91 @@
+// src/__tests__/intentClassifier.test.ts
+import { KeywordIntentClassifier, parseIntentPriority } from '../services/intentClassifier';
+import { editDistance, normalizeText } from '../utils/textNormalization';
+
+describe('Text normalization', () => {
+    it('should fold Arabic spelling variants and diacritics', () => {
+        expect(normalizeText('أين العيادة؟')).toBe(normalizeText('اين العياده'));
+        expect(normalizeText('إِسْتِشَارَة')).toBe('استشاره');
+        expect(normalizeText('مـــرحبا')).toBe('مرحبا');
+        expect(normalizeText('على مستشفى')).toBe('علي مستشفي');
+    });
+
+    it('should lower-case and drop punctuation', () => {
+        expect(normalizeText('  Hello, WORLD!! ')).toBe('hello world');
+    });
+
+    it('should count swapped letters as one edit', () => {
+        expect(editDistance('adress', 'address')).toBe(1);
+        expect(editDistance('apointment', 'appointment')).toBe(1);
+        expect(editDistance('hte', 'the')).toBe(1);
+        expect(editDistance('book', 'book')).toBe(0);
+    });
+});
+
+describe('KeywordIntentClassifier', () => {
+    const classifier = new KeywordIntentClassifier();
+    const intentOf = (text: string) => classifier.classify(text)[0]?.intent ?? null;
+
+    it('should match whole words only', () => {
+        expect(intentOf('which one is this?')).toBeNull();
+        expect(intentOf('hi')).toBe('greeting');
+        expect(intentOf('Hello!')).toBe('greeting');
+    });
+
+    it('should not let weak words hijack clearer questions', () => {
+        expect(intentOf('What time is best to book an appointment?')).toBe('booking');
+        expect(intentOf('Is the cleaning open to kids, how much does it cost?')).toBe('services');
+        expect(intentOf('what time do you open')).toBe('hours');
+    });
+
+    it('should prefer higher-priority intents on a tie', () => {
+        expect(intentOf('hi, I want to book')).toBe('booking');
+        expect(intentOf('hello, can I talk to a person')).toBe('human');
+    });
+
+    it('should match Arabic with spelling variants and prefixes', () => {
+        expect(intentOf('ما هو العنوان؟')).toBe('location');
+        expect(intentOf('أريد حجز موعد')).toBe('booking');
+        expect(intentOf('كم التكلفه')).toBe('services');
+        expect(intentOf('السَّلام عليكم')).toBe('greeting');
+    });
+
+    it('should forgive small typos with lower confidence', () => {
+        const [match] = classifier.classify('what is your adress');
+
+        expect(match.intent).toBe('location');
+        expect(match.confidence).toBeLessThan(1);
+        expect(intentOf('I need an apointment')).toBe('booking');
+        expect(intentOf('hit')).toBeNull();
+    });
+
+    it('should not read everyday words as typos of keywords', () => {
+        expect(intentOf('I have some stuff to ask')).not.toBe('human');
+        expect(intentOf('look, I have a question')).not.toBe('booking');
+        expect(intentOf('is that all?')).not.toBe('contact');
+        expect(intentOf('most people say')).not.toBe('services');
+        expect(intentOf('I feel pain')).not.toBe('services');
+        expect(intentOf('is this yours')).not.toBe('hours');
+        expect(intentOf('I am looking for my file')).not.toBe('booking');
+    });
+
+    it('should report confidence and the matched keyword', () => {
+        expect(classifier.classify('prices please')[0]).toEqual({ intent: 'services', confidence: 1, keyword: 'prices' });
+        expect(classifier.classify('where are you')[0]).toEqual({ intent: 'location', confidence: 0.6, keyword: 'where' });
+    });
+
+    it('should follow a configured priority order', () => {
+        const greetingFirst = new KeywordIntentClassifier({ priority: ['greeting'] });
+
+        expect(greetingFirst.classify('hi, I want to book')[0].intent).toBe('greeting');
+        expect(parseIntentPriority('contact, bogus,human')).toEqual(
+            ['contact', 'human', 'booking', 'services', 'hours', 'location', 'greeting']
+        );
+    });
+
+    it('should turn fuzzy matching off when configured', () => {
+        const exact = new KeywordIntentClassifier({ fuzzy: false });
+
+        expect(exact.classify('what is your adress')).toEqual([]);
+    });
+});
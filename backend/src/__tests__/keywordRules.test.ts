@@ -0,0 +1,112 @@
+// src/__tests__/keywordRules.test.ts
+import {
+    findKeywordRule,
+    isRuleActive,
+    isSafePattern,
+    matchRuleTerm,
+    validateActiveWindow,
+    validateKeywordTerms
+} from '../utils/keywordRules';
+
+describe('Keyword rules', () => {
+    it('should match each mode', () => {
+        expect(matchRuleTerm({ keyword: 'park', matchMode: 'contains' }, 'Is there parking?')).toBe('park');
+        expect(matchRuleTerm({ keyword: 'park', matchMode: 'word' }, 'Is there parking?')).toBeNull();
+        expect(matchRuleTerm({ keyword: 'parking', matchMode: 'word' }, 'Is there parking?')).toBe('parking');
+        expect(matchRuleTerm({ keyword: 'parking', matchMode: 'exact' }, 'Is there parking?')).toBeNull();
+        expect(matchRuleTerm({ keyword: 'parking', matchMode: 'exact' }, ' Parking! ')).toBe('parking');
+        expect(matchRuleTerm({ keyword: 'is there', matchMode: 'startsWith' }, 'Is there parking?')).toBe('is there');
+        expect(matchRuleTerm({ keyword: '^(covid|corona)\\b', matchMode: 'regex' }, 'Corona rules?')).toBe('^(covid|corona)\\b');
+    });
+
+    it('should match synonyms and fold Arabic spelling', () => {
+        const rule = { keyword: 'parking', synonyms: ['موقف سيارات', 'garage'], matchMode: 'word' };
+
+        expect(matchRuleTerm(rule, 'do you have a garage')).toBe('garage');
+        expect(matchRuleTerm(rule, 'هل يوجد مَوقف سيارات؟')).toBe('موقف سيارات');
+    });
+
+    it('should check rules by priority, then sort order', () => {
+        const rules = [
+            { id: 'general', keyword: 'price', sortOrder: 0 },
+            { id: 'implants', keyword: 'implant', priority: 10, sortOrder: 1 },
+            { id: 'fallback', keyword: 'price', sortOrder: 2 }
+        ];
+
+        expect(findKeywordRule(rules, 'implant price')?.rule.id).toBe('implants');
+        expect(findKeywordRule(rules, 'cleaning price')?.rule.id).toBe('general');
+        expect(findKeywordRule(rules, 'hello')).toBeNull();
+    });
+
+    it('should only apply rules within their active hours and days', () => {
+        const night = { keyword: 'emergency', activeFrom: '20:00', activeTo: '08:00' };
+        const weekend = { keyword: 'emergency', activeDays: ['friday', 'saturday'] };
+
+        expect(isRuleActive(night, new Date(2025, 0, 6, 23, 30))).toBe(true);
+        expect(isRuleActive(night, new Date(2025, 0, 6, 7, 59))).toBe(true);
+        expect(isRuleActive(night, new Date(2025, 0, 6, 12, 0))).toBe(false);
+        expect(isRuleActive(weekend, new Date(2025, 0, 10, 12, 0))).toBe(true); // a Friday
+        expect(isRuleActive(weekend, new Date(2025, 0, 6, 12, 0))).toBe(false); // a Monday
+        expect(findKeywordRule([night], 'emergency', new Date(2025, 0, 6, 12, 0))).toBeNull();
+    });
+
+    it('should check active hours and days on the clinic\'s clock', () => {
+        const night = { keyword: 'emergency', activeFrom: '20:00', activeTo: '08:00' };
+        const weekend = { keyword: 'emergency', activeDays: ['friday', 'saturday'] };
+
+        // 17:30 UTC is 21:30 in Dubai and 12:30 in New York
+        const evening = new Date(Date.UTC(2025, 0, 6, 17, 30));
+        expect(isRuleActive(night, evening, 'Asia/Dubai')).toBe(true);
+        expect(isRuleActive(night, evening, 'America/New_York')).toBe(false);
+
+        // Thursday 21:00 UTC is already Friday in Dubai
+        const thursdayNight = new Date(Date.UTC(2025, 0, 9, 21, 0));
+        expect(isRuleActive(weekend, thursdayNight, 'Asia/Dubai')).toBe(true);
+        expect(isRuleActive(weekend, thursdayNight, 'UTC')).toBe(false);
+        expect(findKeywordRule([weekend], 'emergency', thursdayNight, 'Asia/Dubai')?.term).toBe('emergency');
+    });
+
+    it('should refuse patterns that can backtrack exponentially', () => {
+        for (const pattern of ['(a+)+$', '(a*)*b', '(a|aa)+$', '((a|a))+', '(x+x+)+y', '(.*a){12}', '(a)\\1+', '(a?){25}a{25}']) {
+            expect(isSafePattern(pattern)).toBe(false);
+            expect(validateKeywordTerms('regex', [pattern])).toMatch(/freeze the server/);
+        }
+        expect(isSafePattern('[(+)]+\\(x\\)+')).toBe(true);
+
+        // A rule saved before the check is skipped instead of blocking the server
+        const started = Date.now();
+        expect(matchRuleTerm({ keyword: '(a+)+$', matchMode: 'regex' }, `${'a'.repeat(40)}!`)).toBeNull();
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should refuse repetitions with nothing required between them', () => {
+        for (const pattern of ['a*a*a*a*a*b', '.*.*.*.*x', '\\d+\\s?\\d+', '(a*)a*', '(?:a|b)*c*d']) {
+            expect(isSafePattern(pattern)).toBe(false);
+            expect(validateKeywordTerms('regex', [pattern])).toMatch(/freeze the server/);
+        }
+        for (const pattern of ['\\d+-\\d+', '[a-z]+@[a-z]+\\.com', '(?:ab)+c', '^\\w+ \\w+$']) {
+            expect(isSafePattern(pattern)).toBe(true);
+        }
+    });
+
+    it('should give up on a pattern that runs too long', () => {
+        // Each ".*" is followed by a required "a", but the pattern is still slow on a long run of a's
+        const started = Date.now();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(matchRuleTerm({ keyword: '.*a.*a.*a.*a.*b', matchMode: 'regex' }, 'a'.repeat(1000))).toBeNull();
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/was skipped/));
+    });
+
+    it('should validate patterns and active windows', () => {
+        expect(validateKeywordTerms('regex', ['(unclosed'])).toMatch(/Invalid regular expression/);
+        expect(validateKeywordTerms('regex', ['a'.repeat(201)])).toMatch(/at most/);
+        expect(validateKeywordTerms('word', ['(unclosed'])).toBeNull();
+        expect(validateKeywordTerms('regex', ['^(covid|corona)\\b', '\\d{3}-\\d+', '(?:ab)+c'])).toBeNull();
+        expect(validateActiveWindow('09:00', undefined, undefined)).toMatch(/both/);
+        expect(validateActiveWindow('9am', '17:00', undefined)).toMatch(/HH:MM/);
+        expect(validateActiveWindow('09:00', '09:00', undefined)).toMatch(/same time/);
+        expect(validateActiveWindow(undefined, undefined, ['someday'])).toMatch(/day names/);
+        expect(validateActiveWindow('22:00', '06:00', ['friday'])).toBeNull();
+    });
+});
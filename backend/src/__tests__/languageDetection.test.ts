@@ -0,0 +1,48 @@
+// src/__tests__/languageDetection.test.ts
+import { detectLanguage, parseLanguageSwitch } from '../utils/languageDetection';
+import { chooseLanguage } from '../services/languageService';
+
+describe('Language detection', () => {
+    it('should detect Arabic script', () => {
+        expect(detectLanguage('مرحبا، أريد حجز موعد')).toBe('ar');
+        expect(detectLanguage('كم سعر cleaning؟')).toBe('ar');
+    });
+
+    it('should detect Arabizi written in Latin letters', () => {
+        expect(detectLanguage('marhaba, baddi a7jez maw3ed')).toBe('ar');
+        expect(detectLanguage('3ndi waja3 bi sinan')).toBe('ar');
+        expect(detectLanguage('shukran habibi')).toBe('ar');
+    });
+
+    it('should detect English, including times and ordinals with digits', () => {
+        expect(detectLanguage('Hello, I want to book an appointment')).toBe('en');
+        expect(detectLanguage('Can I come at 2pm on the 3rd?')).toBe('en');
+        expect(detectLanguage('Jane Doe')).toBe('en');
+    });
+
+    it('should not guess from numbers and emoji alone', () => {
+        expect(detectLanguage('1')).toBeNull();
+        expect(detectLanguage('٣')).toBeNull();
+        expect(detectLanguage('👍')).toBeNull();
+    });
+
+    it('should recognise language switch commands', () => {
+        expect(parseLanguageSwitch('English')).toBe('en');
+        expect(parseLanguageSwitch(' عربي ')).toBe('ar');
+        expect(parseLanguageSwitch('Arabic!')).toBe('ar');
+        expect(parseLanguageSwitch('I speak English')).toBeNull();
+    });
+});
+
+describe('Language choice', () => {
+    it('should prefer an explicit choice over what the message looks like', () => {
+        expect(chooseLanguage('en', { language: 'ar', explicit: true }, 'en')).toBe('ar');
+    });
+
+    it('should follow the message, then the patient, then the clinic', () => {
+        expect(chooseLanguage('ar', { language: 'en', explicit: false }, 'en')).toBe('ar');
+        expect(chooseLanguage(null, { language: 'ar', explicit: false }, 'en')).toBe('ar');
+        expect(chooseLanguage(null, null, 'ar')).toBe('ar');
+        expect(chooseLanguage(null, null, 'bilingual')).toBe('en');
+    });
+});
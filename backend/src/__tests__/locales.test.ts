@@ -0,0 +1,59 @@
+// src/__tests__/locales.test.ts
+import { CATALOGS, SUPPORTED_LANGUAGES, translate, validateMessageOverrides } from '../i18n';
+import en, { MessageKey } from '../i18n/locales/en';
+
+// Helper function to list the {placeholders} of a message
+function placeholders(text: string): string[] {
+    return (text.match(/\{(\w+)\}/g) || []).sort();
+}
+
+describe('Locale catalogs', () => {
+    const keys = Object.keys(en) as MessageKey[];
+
+    it.each(SUPPORTED_LANGUAGES)('should define every message key in "%s"', (language) => {
+        const catalog = CATALOGS[language];
+
+        expect(Object.keys(catalog).sort()).toEqual([...keys].sort());
+        for (const key of keys) {
+            expect(catalog[key].trim()).not.toBe('');
+        }
+    });
+
+    it.each(SUPPORTED_LANGUAGES)('should use the same placeholders as English in "%s"', (language) => {
+        for (const key of keys) {
+            expect({ key, placeholders: placeholders(CATALOGS[language][key]) })
+                .toEqual({ key, placeholders: placeholders(en[key]) });
+        }
+    });
+});
+
+describe('translate', () => {
+    it('should fill in placeholders', () => {
+        expect(translate('contact.phone', 'en', { phone: '+961 1 234 567' })).toBe('You can call us at: +961 1 234 567');
+        expect(translate('contact.phone', 'ar', { phone: '+961 1 234 567' })).toBe('يمكنكم الاتصال بنا على: +961 1 234 567');
+    });
+
+    it('should prefer the clinic override, then the catalog', () => {
+        const overrides = { ar: { 'handoff.started': 'سنرد عليك خلال دقائق.' } };
+
+        expect(translate('handoff.started', 'ar', {}, overrides)).toBe('سنرد عليك خلال دقائق.');
+        expect(translate('handoff.started', 'en', {}, overrides)).toBe(en['handoff.started']);
+    });
+});
+
+describe('validateMessageOverrides', () => {
+    it('should accept overrides of known keys and null', () => {
+        expect(validateMessageOverrides({ en: { 'greeting.default': 'Hi there!' } })).toBeNull();
+        expect(validateMessageOverrides(null)).toBeNull();
+    });
+
+    it('should reject unknown languages, unknown keys and empty messages', () => {
+        expect(validateMessageOverrides('hello')).toMatch(/object/);
+        expect(validateMessageOverrides({ xx: {} })).toMatch(/Unsupported language/);
+        expect(validateMessageOverrides({ en: { 'menu.unknown': 'Hi' } })).toMatch(/Unknown message key/);
+        for (const key of ['toString', 'constructor', '__proto__']) {
+            expect(validateMessageOverrides({ en: JSON.parse(`{"${key}": "Hi"}`) })).toMatch(/Unknown message key/);
+        }
+        expect(validateMessageOverrides({ ar: { 'menu.prompt': '  ' } })).toMatch(/non-empty/);
+    });
+});
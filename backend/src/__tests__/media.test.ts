@@ -0,0 +1,116 @@
+// src/__tests__/media.test.ts
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import mediaService from '../services/mediaService';
+import { FileMediaStore, getMediaStore, setMediaStore } from '../services/mediaStore';
+import { getMediaExtension, parseInboundMessage } from '../utils/inboundMessage';
+
+describe('Inbound message parsing', () => {
+    it('should read text and captions', () => {
+        expect(parseInboundMessage({ conversation: 'Hello' })).toEqual({ type: 'text', text: 'Hello', metadata: null });
+        expect(parseInboundMessage({ extendedTextMessage: { text: 'Hi there' } })).toMatchObject({ type: 'text', text: 'Hi there' });
+
+        const image = { url: 'https://mmg.whatsapp.net/x', mimetype: 'image/jpeg', caption: 'Is this bad?', fileLength: '52311', width: 1080, height: 1920 };
+        expect(parseInboundMessage({ imageMessage: image })).toEqual({
+            type: 'image',
+            text: 'Is this bad?',
+            mediaMessage: { imageMessage: image },
+            metadata: { mimeType: 'image/jpeg', size: 52311, width: 1080, height: 1920 }
+        });
+    });
+
+    it('should read documents, including those sent with a caption', () => {
+        const document = { mimetype: 'application/pdf', fileName: 'x-ray.pdf', fileLength: { low: 1024, high: 0 }, pageCount: 2 };
+
+        expect(parseInboundMessage({ documentMessage: document })).toMatchObject({
+            type: 'document',
+            text: '',
+            metadata: { mimeType: 'application/pdf', fileName: 'x-ray.pdf', size: 1024, pageCount: 2 }
+        });
+        expect(parseInboundMessage({ documentWithCaptionMessage: { message: { documentMessage: { ...document, caption: 'My report' } } } }))
+            .toMatchObject({ type: 'document', text: 'My report' });
+    });
+
+    it('should tell voice notes from audio files', () => {
+        expect(parseInboundMessage({ audioMessage: { mimetype: 'audio/ogg; codecs=opus', seconds: 12, ptt: true } }))
+            .toMatchObject({ type: 'audio', text: '', metadata: { mimeType: 'audio/ogg; codecs=opus', seconds: 12, voiceNote: true } });
+        expect(parseInboundMessage({ audioMessage: { mimetype: 'audio/mpeg' } })?.metadata).toHaveProperty('voiceNote', false);
+    });
+
+    it('should read location pins without media to download', () => {
+        expect(parseInboundMessage({ locationMessage: { degreesLatitude: 25.2048, degreesLongitude: 55.2708, name: 'Dubai Mall' } })).toEqual({
+            type: 'location',
+            text: 'Dubai Mall',
+            metadata: { latitude: 25.2048, longitude: 55.2708, name: 'Dubai Mall' }
+        });
+        expect(parseInboundMessage({ liveLocationMessage: { degreesLatitude: 1, degreesLongitude: 2 } })?.metadata).toHaveProperty('live', true);
+        expect(parseInboundMessage({ locationMessage: {} })).toBeNull();
+    });
+
+    it('should skip kinds of messages we do not handle', () => {
+        expect(parseInboundMessage({ stickerMessage: { mimetype: 'image/webp' } })).toBeNull();
+        expect(parseInboundMessage({ reactionMessage: { text: '👍' } })).toBeNull();
+        expect(parseInboundMessage(undefined)).toBeNull();
+    });
+
+    it('should pick file extensions from the MIME type or file name', () => {
+        expect(getMediaExtension('audio/ogg; codecs=opus')).toBe('ogg');
+        expect(getMediaExtension('application/vnd.ms-excel', 'Invoice.XLS')).toBe('xls');
+        expect(getMediaExtension(undefined, 'no-extension')).toBe('bin');
+    });
+});
+
+describe('Media storage', () => {
+    const originalStore = getMediaStore();
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'media-test-'));
+        setMediaStore(new FileMediaStore(root));
+        delete process.env.FIELD_ENCRYPTION_KEYS;
+    });
+
+    afterEach(async () => {
+        setMediaStore(originalStore);
+        delete process.env.FIELD_ENCRYPTION_KEYS;
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should save, read and remove files', async () => {
+        const store = getMediaStore();
+        await store.save('session-1/photo.jpg', Buffer.from([0xff, 0xd8, 0xff]));
+
+        expect(await store.read('session-1/photo.jpg')).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+
+        await store.remove('session-1/photo.jpg');
+        await expect(store.read('session-1/photo.jpg')).rejects.toThrow();
+    });
+
+    it('should not reach outside its directory', async () => {
+        await expect(getMediaStore().save('../escape.txt', Buffer.from('x'))).rejects.toThrow('Invalid media key');
+    });
+
+    it('should encrypt files when field encryption is configured', async () => {
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+        const photo = crypto.randomBytes(256);
+
+        await mediaService.save('session-1/photo.jpg', photo);
+
+        const stored = await fs.readFile(path.join(root, 'session-1', 'photo.jpg'));
+        expect(stored.toString().startsWith('enc:k1:')).toBe(true);
+        expect(await mediaService.read('session-1/photo.jpg')).toEqual(photo);
+    });
+
+    it('should refuse to store files unencrypted in production', async () => {
+        const nodeEnv = process.env.NODE_ENV;
+        process.env.NODE_ENV = 'production';
+
+        try {
+            await expect(mediaService.save('session-1/photo.jpg', Buffer.from('photo'))).rejects.toThrow('FIELD_ENCRYPTION_KEYS must be set in production');
+        } finally {
+            process.env.NODE_ENV = nodeEnv;
+        }
+    });
+});
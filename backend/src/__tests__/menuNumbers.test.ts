@@ -0,0 +1,24 @@
+// src/__tests__/menuNumbers.test.ts
+import { formatMenuNumber, normalizeDigits, parseMenuNumber } from '../utils/menuNumbers';
+
+describe('Menu numbers', () => {
+    it('should parse English and Arabic numerals', () => {
+        expect(parseMenuNumber('3')).toBe(3);
+        expect(parseMenuNumber(' ٣ ')).toBe(3);
+        expect(parseMenuNumber('۳')).toBe(3);
+        expect(parseMenuNumber('١٢')).toBe(12);
+        expect(parseMenuNumber('2.')).toBe(2);
+    });
+
+    it('should return null for replies that are not a menu number', () => {
+        expect(parseMenuNumber('yes')).toBeNull();
+        expect(parseMenuNumber('3 please')).toBeNull();
+        expect(parseMenuNumber('')).toBeNull();
+    });
+
+    it('should render numbers in the patient language', () => {
+        expect(formatMenuNumber(10, 'en')).toBe('10');
+        expect(formatMenuNumber(10, 'ar')).toBe('١٠');
+        expect(normalizeDigits('الساعة ١٠:٣٠')).toBe('الساعة 10:30');
+    });
+});
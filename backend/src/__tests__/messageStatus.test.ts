@@ -0,0 +1,37 @@
+// src/__tests__/messageStatus.test.ts
+import { isStatusProgress } from '../services/messageService';
+import { jidToPhone, toDigits, toE164, toJid } from '../utils/phone';
+
+describe('Message delivery status', () => {
+    it('should only move statuses forward', () => {
+        expect(isStatusProgress('pending', 'sent')).toBe(true);
+        expect(isStatusProgress('sent', 'read')).toBe(true);
+        expect(isStatusProgress('read', 'delivered')).toBe(false);
+        expect(isStatusProgress('delivered', 'delivered')).toBe(false);
+        expect(isStatusProgress(null, 'pending')).toBe(true);
+    });
+
+    it('should only fail messages that were not delivered yet', () => {
+        expect(isStatusProgress('pending', 'failed')).toBe(true);
+        expect(isStatusProgress('sent', 'failed')).toBe(true);
+        expect(isStatusProgress('delivered', 'failed')).toBe(false);
+        expect(isStatusProgress('failed', 'delivered')).toBe(true);
+    });
+});
+
+describe('Phone number helpers', () => {
+    it('should convert between phone numbers and JIDs', () => {
+        expect(toJid('+1 (234) 567-890')).toBe('1234567890@s.whatsapp.net');
+        expect(toJid('1234567890@s.whatsapp.net')).toBe('1234567890@s.whatsapp.net');
+        expect(toDigits('1234567890@s.whatsapp.net')).toBe('1234567890');
+        expect(jidToPhone('1234567890@s.whatsapp.net')).toBe('+1234567890');
+    });
+
+    it('should normalize phone numbers to E.164', () => {
+        expect(toE164('+971 50-123 4567')).toBe('+971501234567');
+        expect(toE164('00971501234567')).toBe('+971501234567');
+        expect(toE164('971501234567@s.whatsapp.net')).toBe('+971501234567');
+        expect(toE164('050 123 4567')).toBeNull();
+        expect(toE164('+12345')).toBeNull();
+    });
+});
@@ -0,0 +1,248 @@
+// src/__tests__/messagingProvider.test.ts
+import crypto from 'crypto';
+import { CloudApiProvider, toCloudMessage } from '../services/cloudApiProvider';
+import { MemoryProvider } from '../services/memoryProvider';
+import {
+    findMessagingProvider,
+    getDefaultProviderName,
+    getMessagingProvider,
+    MessagingProvider,
+    setMessagingProvider
+} from '../services/messagingProvider';
+import { parseInboundMessage } from '../utils/inboundMessage';
+
+// Mock the wasenderService
+jest.mock('../services/wasenderService');
+import wasenderService from '../services/wasenderService';
+
+const session = { provider: 'cloud', sessionId: '106540352242922', apiKey: 'test-access-token', webhookSecret: 'test-app-secret' };
+
+describe('Messaging provider registry', () => {
+    afterEach(() => {
+        delete process.env.MESSAGING_PROVIDER;
+    });
+
+    it('should have the built-in providers', () => {
+        expect(getMessagingProvider('wasender').name).toBe('wasender');
+        expect(getMessagingProvider('cloud').signatureHeader).toBe('X-Hub-Signature-256');
+        expect(findMessagingProvider('memory')).toBeInstanceOf(MemoryProvider);
+        expect(findMessagingProvider('carrier-pigeon')).toBeUndefined();
+        expect(() => getMessagingProvider('carrier-pigeon')).toThrow('Unknown messaging provider "carrier-pigeon"');
+    });
+
+    it('should only offer the in-memory provider in tests or when enabled', () => {
+        const nodeEnv = process.env.NODE_ENV;
+        process.env.NODE_ENV = 'production';
+
+        try {
+            jest.isolateModules(() => {
+                const registry = require('../services/messagingProvider');
+                expect(registry.findMessagingProvider('memory')).toBeUndefined();
+                expect(registry.findMessagingProvider('wasender')).toBeDefined();
+            });
+
+            process.env.MESSAGING_MEMORY_PROVIDER = 'true';
+            jest.isolateModules(() => {
+                expect(require('../services/messagingProvider').findMessagingProvider('memory')).toBeDefined();
+            });
+        } finally {
+            process.env.NODE_ENV = nodeEnv;
+            delete process.env.MESSAGING_MEMORY_PROVIDER;
+        }
+    });
+
+    it('should default to WasenderAPI unless configured', () => {
+        expect(getDefaultProviderName()).toBe('wasender');
+        process.env.MESSAGING_PROVIDER = 'memory';
+        expect(getDefaultProviderName()).toBe('memory');
+    });
+
+    it('should let another provider replace a built-in one', () => {
+        const original = getMessagingProvider('memory');
+        const replacement = new MemoryProvider();
+
+        setMessagingProvider(replacement);
+        expect(getMessagingProvider('memory')).toBe(replacement);
+
+        setMessagingProvider(original as MessagingProvider);
+    });
+});
+
+describe('WasenderAPI provider', () => {
+    it('should send through WasenderAPI and return its message ID', async () => {
+        (wasenderService.sendMessage as jest.MockedFunction<any>).mockResolvedValue({
+            success: true,
+            data: { msgId: 42, status: 'in_progress' }
+        });
+
+        const messageId = await getMessagingProvider('wasender').send(
+            { ...session, provider: 'wasender', sessionId: '1' },
+            '15550001111',
+            { type: 'text', text: 'Hello' }
+        );
+
+        expect(wasenderService.sendMessage).toHaveBeenCalledWith('test-access-token', { to: '15550001111', text: 'Hello' });
+        expect(messageId).toBe('42');
+    });
+
+    it('should pass its webhooks through as they are', () => {
+        const event = { event: 'messages.received', data: {}, timestamp: 1700000000 };
+        expect(getMessagingProvider('wasender').parseWebhook(event)).toEqual([event]);
+        expect(getMessagingProvider('wasender').parseWebhook({ data: {} })).toBeNull();
+    });
+});
+
+describe('WhatsApp Cloud API provider', () => {
+    const provider = new CloudApiProvider();
+
+    it('should translate messages into messages.received events', () => {
+        const events = provider.parseWebhook({
+            object: 'whatsapp_business_account',
+            entry: [{
+                id: '8856996819413533',
+                changes: [{
+                    field: 'messages',
+                    value: {
+                        messaging_product: 'whatsapp',
+                        contacts: [{ wa_id: '15550001111', profile: { name: 'Sara' } }],
+                        messages: [
+                            { id: 'wamid.1', from: '15550001111', timestamp: '1700000000', type: 'text', text: { body: 'Hi' } },
+                            { id: 'wamid.2', from: '15550001111', timestamp: '1700000001', type: 'image', image: { id: 'media-1', mime_type: 'image/jpeg', caption: 'Is this bad?' } },
+                            { id: 'wamid.3', from: '15550001111', timestamp: '1700000002', type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: 'booking', title: 'Book' } } }
+                        ]
+                    }
+                }]
+            }]
+        });
+
+        expect(events).toHaveLength(3);
+        expect(events![0]).toEqual({
+            id: 'cloud:wamid.1',
+            event: 'messages.received',
+            timestamp: 1700000000,
+            data: {
+                key: { id: 'wamid.1', fromMe: false, remoteJid: '15550001111@s.whatsapp.net' },
+                pushName: 'Sara',
+                message: { conversation: 'Hi' }
+            }
+        });
+        expect(parseInboundMessage(events![1].data.message)).toMatchObject({
+            type: 'image',
+            text: 'Is this bad?',
+            mediaMessage: { imageMessage: { id: 'media-1' } },
+            metadata: { mimeType: 'image/jpeg' }
+        });
+        expect(events![2].data.message).toEqual({ conversation: 'Book' });
+    });
+
+    it('should translate delivery statuses into messages.update events', () => {
+        const events = provider.parseWebhook({
+            object: 'whatsapp_business_account',
+            entry: [{
+                changes: [{
+                    field: 'messages',
+                    value: {
+                        statuses: [
+                            { id: 'wamid.9', status: 'read', timestamp: '1700000100', recipient_id: '15550001111' },
+                            { id: 'wamid.9', status: 'deleted', timestamp: '1700000101', recipient_id: '15550001111' }
+                        ]
+                    }
+                }]
+            }]
+        });
+
+        expect(events).toEqual([{
+            id: 'cloud:wamid.9:read',
+            event: 'messages.update',
+            timestamp: 1700000100,
+            data: {
+                key: { id: 'wamid.9', fromMe: true, remoteJid: '15550001111@s.whatsapp.net' },
+                update: { status: 4 }
+            }
+        }]);
+        expect(provider.parseWebhook({ event: 'messages.received' })).toBeNull();
+    });
+
+    it('should only accept bodies signed with the app secret', () => {
+        const rawBody = Buffer.from(JSON.stringify({ object: 'whatsapp_business_account', entry: [] }));
+        const signature = `sha256=${crypto.createHmac('sha256', session.webhookSecret).update(rawBody).digest('hex')}`;
+
+        expect(provider.verifyWebhook(session, { rawBody, signature })).toBe(true);
+        expect(provider.verifyWebhook(session, { rawBody: Buffer.from('{}'), signature })).toBe(false);
+        expect(provider.verifyWebhook(session, { rawBody, signature: session.webhookSecret })).toBe(false);
+    });
+
+    it('should answer the subscription check with the configured verify token', () => {
+        process.env.WHATSAPP_CLOUD_VERIFY_TOKEN = 'verify-me';
+
+        expect(provider.verifySubscription({ 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-me', 'hub.challenge': '1158201444' }))
+            .toBe('1158201444');
+        expect(provider.verifySubscription({ 'hub.mode': 'subscribe', 'hub.verify_token': 'guess', 'hub.challenge': '1158201444' }))
+            .toBeNull();
+
+        delete process.env.WHATSAPP_CLOUD_VERIFY_TOKEN;
+        expect(provider.verifySubscription({ 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-me', 'hub.challenge': '1' })).toBeNull();
+    });
+
+    it('should build Cloud API messages', () => {
+        expect(toCloudMessage('15550001111', { type: 'location', latitude: 25.2, longitude: 55.3, name: 'Smile Clinic' })).toMatchObject({
+            messaging_product: 'whatsapp',
+            to: '15550001111',
+            type: 'location',
+            location: { latitude: 25.2, longitude: 55.3, name: 'Smile Clinic' }
+        });
+
+        const yesNo = [{ id: 'yes', title: 'Yes' }, { id: 'no', title: 'No' }];
+        expect(toCloudMessage('15550001111', { type: 'interactive', text: 'Confirm?', options: yesNo })).toMatchObject({
+            type: 'interactive',
+            interactive: { type: 'button', action: { buttons: [{ type: 'reply', reply: { id: 'yes', title: 'Yes' } }, { type: 'reply', reply: { id: 'no', title: 'No' } }] } }
+        });
+
+        const services = ['Cleaning', 'Whitening', 'Braces', 'Implants'].map((title) => ({ id: title.toLowerCase(), title }));
+        expect(toCloudMessage('15550001111', { type: 'interactive', text: 'Which service?', options: services, buttonText: 'Services' }))
+            .toMatchObject({ interactive: { type: 'list', action: { button: 'Services', sections: [{ rows: expect.arrayContaining([{ id: 'braces', title: 'Braces' }]) }] } } });
+
+        const many = Array.from({ length: 11 }, (_, index) => ({ id: String(index), title: `Slot ${index + 1}` }));
+        expect(toCloudMessage('15550001111', { type: 'interactive', text: 'Pick a time', options: many })).toMatchObject({
+            type: 'text',
+            text: { body: expect.stringContaining('11. Slot 11') }
+        });
+    });
+});
+
+describe('In-memory provider', () => {
+    const provider = new MemoryProvider();
+
+    afterEach(() => {
+        provider.reset();
+    });
+
+    it('should create sessions and record what is sent', async () => {
+        const created = await provider.createSession({ name: 'Local', phoneNumber: '+15550009999', settings: {} });
+        const memorySession = { provider: 'memory', ...created! };
+
+        expect(await provider.getSessionStatus(memorySession)).toBe('connected');
+
+        const messageId = await provider.send(memorySession, '15550001111', { type: 'text', text: 'Hello' });
+        expect(provider.sent).toEqual([{ sessionId: created!.sessionId, to: '15550001111', content: { type: 'text', text: 'Hello' }, providerMessageId: messageId }]);
+
+        await provider.disconnectSession(memorySession);
+        expect(await provider.getSessionStatus(memorySession)).toBe('disconnected');
+    });
+
+    it('should only keep the latest sent messages', async () => {
+        for (let index = 0; index < 1001; index++) {
+            await provider.send(session, '15550001111', { type: 'text', text: `Message ${index}` });
+        }
+
+        expect(provider.sent).toHaveLength(1000);
+        expect(provider.sent[0].content).toEqual({ type: 'text', text: 'Message 1' });
+    });
+
+    it('should serve media added for a message', async () => {
+        provider.addMedia('msg-1', Buffer.from('photo'));
+
+        expect(await provider.downloadMedia(session, { providerMessageId: 'msg-1', mediaMessage: {}, maxBytes: 100 })).toEqual(Buffer.from('photo'));
+        await expect(provider.downloadMedia(session, { providerMessageId: 'msg-2', mediaMessage: {}, maxBytes: 100 })).rejects.toThrow('No media for message msg-2');
+    });
+});
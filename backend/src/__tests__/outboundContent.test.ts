@@ -0,0 +1,61 @@
+// src/__tests__/outboundContent.test.ts
+import { describeOutbound } from '../services/messageService';
+import wasenderService from '../services/wasenderService';
+import { toOutboundContent, validateCoordinates, validateOutboundContent } from '../utils/outboundContent';
+
+describe('Outbound content', () => {
+    it('should treat a body without a type as text', () => {
+        expect(validateOutboundContent({ text: 'We open at 9am.' })).toBeNull();
+        expect(validateOutboundContent({ text: '   ' })).toBe('Message text is required');
+        expect(toOutboundContent({ text: ' We open at 9am. ' })).toEqual({ type: 'text', text: 'We open at 9am.' });
+    });
+
+    it('should require a downloadable URL for images and documents', () => {
+        expect(validateOutboundContent({ type: 'image', url: 'https://example.com/prices.png' })).toBeNull();
+        expect(validateOutboundContent({ type: 'document', url: 'file:///etc/passwd' })).toBe('A public http(s) URL of the file is required');
+        expect(validateOutboundContent({ type: 'image' })).toBe('A public http(s) URL of the file is required');
+        expect(validateOutboundContent({ type: 'image', url: 'https://example.com/x.png', caption: 'x'.repeat(4097) }))
+            .toBe('Text fields must be strings of at most 4096 characters');
+        expect(validateOutboundContent({ type: 'sticker' })).toBe('Message type must be one of: text, image, document, location');
+
+        expect(toOutboundContent({ type: 'document', url: 'https://example.com/pre-op.pdf', fileName: 'pre-op.pdf', caption: ' ' })).toEqual({
+            type: 'document',
+            url: 'https://example.com/pre-op.pdf',
+            fileName: 'pre-op.pdf',
+            caption: undefined
+        });
+    });
+
+    it('should check map pin coordinates', () => {
+        expect(validateOutboundContent({ type: 'location', latitude: 25.2048, longitude: 55.2708 })).toBeNull();
+        expect(validateOutboundContent({ type: 'location' })).toBe('Latitude and longitude are required');
+        expect(validateOutboundContent({ type: 'location', latitude: 91, longitude: 0 }))
+            .toBe('Latitude must be between -90 and 90 and longitude between -180 and 180');
+        expect(validateCoordinates(25.2, null)).toBe('Latitude and longitude must be set together');
+        expect(validateCoordinates(null, null)).toBeNull();
+    });
+
+    it('should describe what was sent for the inbox', () => {
+        expect(describeOutbound({ type: 'text', text: 'Hi' })).toEqual({ text: 'Hi', metadata: undefined });
+        expect(describeOutbound({ type: 'image', url: 'https://example.com/prices.png' }))
+            .toEqual({ text: '', metadata: { url: 'https://example.com/prices.png' } });
+        expect(describeOutbound({ type: 'location', latitude: 25.2, longitude: 55.3, name: 'Smile Clinic' }))
+            .toEqual({ text: 'Smile Clinic', metadata: { latitude: 25.2, longitude: 55.3, name: 'Smile Clinic' } });
+    });
+
+    it('should send interactive choices as a numbered list', async () => {
+        const sendMessage = jest.spyOn(wasenderService, 'sendMessage').mockResolvedValue({ success: true });
+
+        await wasenderService.sendInteractive('test-api-key', {
+            to: '15550001111',
+            text: 'Which service?',
+            options: [{ id: 'cleaning', title: 'Cleaning', description: '30 min' }, { id: 'whitening', title: 'Whitening' }]
+        });
+
+        expect(sendMessage).toHaveBeenCalledWith('test-api-key', {
+            to: '15550001111',
+            text: 'Which service?\n\n1. Cleaning - 30 min\n2. Whitening'
+        });
+        sendMessage.mockRestore();
+    });
+});
@@ -0,0 +1,216 @@
+// src/__tests__/patients.test.ts
+import crypto from 'crypto';
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { app } from '../server';
+import { loadSessionForProcessing, processWebhookEvent } from '../services/webhookProcessor';
+
+const prisma = new PrismaClient();
+
+// Mock the wasenderService so bot replies are not sent
+jest.mock('../services/wasenderService');
+
+describe('Patients API', () => {
+    let authToken: string;
+    let whatsappSessionId: string;
+    let serviceId: string;
+
+    // Helper function to run an inbound WhatsApp message through the webhook processor
+    const receive = async (jid: string, text: string, pushName?: string) => {
+        const session = await loadSessionForProcessing(whatsappSessionId);
+        await processWebhookEvent({
+            event: 'messages.received',
+            timestamp: Math.floor(Date.now() / 1000),
+            data: {
+                key: { id: `msg_${Date.now()}_${Math.random()}`, fromMe: false, remoteJid: jid },
+                pushName,
+                message: { conversation: text }
+            }
+        }, session);
+    };
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'patients-test@example.com'
+            }
+        });
+
+        const registerResponse = await request(app)
+            .post('/api/auth/register')
+            .send({
+                email: 'patients-test@example.com',
+                password: 'password123',
+                clinicName: 'Test Patients Clinic',
+                clinicPhone: '+1234567890'
+            });
+
+        authToken = registerResponse.body.token;
+
+        const session = await prisma.whatsappSession.create({
+            data: {
+                userId: registerResponse.body.user.id,
+                sessionId: '1',
+                apiKey: 'test-api-key',
+                webhookSecret: 'test-webhook-secret',
+                phoneNumber: '+1234567890',
+                status: 'connected'
+            }
+        });
+        whatsappSessionId = session.id;
+
+        const serviceResponse = await request(app)
+            .post('/api/clinic-settings/services')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ nameEn: 'Checkup', price: 40, duration: 30 });
+        serviceId = serviceResponse.body.service.id;
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'patients-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should create a patient from an inbound message and link the conversation', async () => {
+        await receive('971501234567@s.whatsapp.net', 'Hello', 'Layla');
+
+        const listResponse = await request(app)
+            .get('/api/patients')
+            .set('Authorization', `Bearer ${authToken}`)
+            .query({ search: 'layla' })
+            .expect(200);
+
+        expect(listResponse.body.total).toBe(1);
+        expect(listResponse.body.patients[0]).toMatchObject({
+            phone: '+971501234567',
+            whatsappName: 'Layla',
+            preferredLanguage: 'en'
+        });
+
+        const messagesResponse = await request(app)
+            .get(`/api/patients/${listResponse.body.patients[0].id}/messages`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        // The patient's message and the bot's reply
+        expect(messagesResponse.body.messages.map((message: any) => message.direction)).toEqual(['inbound', 'outbound']);
+    });
+
+    it('should link appointments by phone number and merge duplicates', async () => {
+        const bookingResponse = await request(app)
+            .post('/api/appointments')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                patientName: 'Layla Haddad',
+                patientPhone: '00971 50 123 4567',
+                serviceId,
+                appointmentDate: new Date(Date.now() + 3 * 24 * 60 * 60000).toISOString()
+            })
+            .expect(201);
+
+        const secondResponse = await request(app)
+            .post('/api/appointments')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                patientName: 'Layla H.',
+                patientPhone: '+971 55 765 4321',
+                serviceId,
+                appointmentDate: new Date(Date.now() + 4 * 24 * 60 * 60000).toISOString()
+            })
+            .expect(201);
+
+        const target = await prisma.patient.findUniqueOrThrow({ where: { id: bookingResponse.body.appointment.patientId } });
+        expect(target).toMatchObject({ phone: '+971501234567', name: 'Layla Haddad' });
+
+        await request(app)
+            .post(`/api/patients/${target.id}/merge`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ sourceId: target.id })
+            .expect(400);
+
+        const mergeResponse = await request(app)
+            .post(`/api/patients/${target.id}/merge`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ sourceId: secondResponse.body.appointment.patientId })
+            .expect(200);
+
+        expect(mergeResponse.body.patient.alternatePhones).toEqual(['+971557654321']);
+
+        const patientResponse = await request(app)
+            .get(`/api/patients/${target.id}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .expect(200);
+
+        expect(patientResponse.body.appointments).toHaveLength(2);
+
+        // The merged number keeps pointing at the same patient
+        await receive('971557654321@s.whatsapp.net', 'Hi again');
+        expect(await prisma.patient.count({ where: { user: { email: 'patients-test@example.com' } } })).toBe(1);
+    });
+
+    it('should update notes and consent', async () => {
+        const patient = await prisma.patient.findFirstOrThrow({ where: { user: { email: 'patients-test@example.com' } } });
+
+        await request(app)
+            .put(`/api/patients/${patient.id}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ reminderConsent: 'no' })
+            .expect(400);
+
+        const response = await request(app)
+            .put(`/api/patients/${patient.id}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ notes: 'Allergic to penicillin', reminderConsent: false, preferredLanguage: 'ar' })
+            .expect(200);
+
+        expect(response.body.patient).toMatchObject({
+            notes: 'Allergic to penicillin',
+            reminderConsent: false,
+            preferredLanguage: 'ar'
+        });
+    });
+
+    it('should keep a language set by staff when the patient writes in another', async () => {
+        await receive('971501234567@s.whatsapp.net', 'Hello, what are your opening hours?');
+
+        const patient = await prisma.patient.findFirstOrThrow({ where: { user: { email: 'patients-test@example.com' } } });
+        expect(patient).toMatchObject({ preferredLanguage: 'ar', languageExplicit: true });
+
+        const reply = await prisma.message.findFirstOrThrow({
+            where: { patientId: patient.id, direction: 'outbound' },
+            orderBy: { timestamp: 'desc' }
+        });
+        expect(reply.languageUsed).toBe('ar');
+    });
+
+    it('should store patient details encrypted and still find the patient by number', async () => {
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+
+        try {
+            await receive('971509998888@s.whatsapp.net', 'Hello', 'Omar');
+            await receive('971509998888@s.whatsapp.net', 'Are you open today?', 'Omar');
+
+            const stored = await prisma.patient.findMany({ where: { user: { email: 'patients-test@example.com' }, encryptedAtRest: true } });
+            expect(stored).toHaveLength(1);
+            expect(stored[0].phone).not.toContain('971509998888');
+            expect(stored[0].whatsappName).not.toBe('Omar');
+
+            for (const search of ['omar', '+971 50 999 8888']) {
+                const response = await request(app)
+                    .get('/api/patients')
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .query({ search })
+                    .expect(200);
+
+                expect(response.body.total).toBe(1);
+                expect(response.body.patients[0]).toMatchObject({ phone: '+971509998888', whatsappName: 'Omar' });
+            }
+        } finally {
+            delete process.env.FIELD_ENCRYPTION_KEYS;
+        }
+    });
+});
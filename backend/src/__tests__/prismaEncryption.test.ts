@@ -0,0 +1,64 @@
+// src/__tests__/prismaEncryption.test.ts
+import crypto from 'crypto';
+import { decryptField } from '../utils/fieldEncryption';
+import { encryptArgs } from '../utils/prismaEncryption';
+
+describe('Prisma field encryption', () => {
+    beforeEach(() => {
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    });
+
+    afterAll(() => {
+        delete process.env.FIELD_ENCRYPTION_KEYS;
+    });
+
+    it('should encrypt records created and updated through relations', () => {
+        const args = encryptArgs({
+            data: {
+                patientName: 'Layla',
+                patient: {
+                    connectOrCreate: {
+                        where: { id: 'patient-1' },
+                        create: { userId: 'user-1', phone: '+971501234567', name: 'Layla' }
+                    }
+                },
+                user: {
+                    update: { patients: { create: [{ phone: '+971509998888' }] } }
+                }
+            }
+        }, 'appointment');
+
+        expect(decryptField(args.data.patientName)).toBe('Layla');
+        const created = args.data.patient.connectOrCreate.create;
+        expect(created.phone).not.toContain('971501234567');
+        expect(decryptField(created.phone)).toBe('+971501234567');
+        expect(decryptField(created.name)).toBe('Layla');
+        expect(created.encryptedAtRest).toBe(true);
+        expect(decryptField(args.data.user.update.patients.create[0].phone)).toBe('+971509998888');
+    });
+
+    it('should leave the caller\'s arguments unchanged', () => {
+        const data = { patient: { create: { phone: '+971501234567' } } };
+        encryptArgs({ data }, 'message');
+
+        expect(data.patient.create.phone).toBe('+971501234567');
+    });
+
+    it('should refuse filters on encrypted fields wherever they appear', () => {
+        const filters = [
+            { where: { name: 'Layla' } },
+            { where: { OR: [{ phoneHash: null }, { phone: '+971501234567' }] } },
+            { where: { AND: { NOT: { notes: 'x' } } } },
+            { where: { messages: { some: { content: 'hello' } } } },
+            { where: { appointments: { none: { patient: { is: { whatsappName: 'Layla' } } } } } },
+            { include: { messages: { where: { content: 'hello' } } } },
+            { data: { messages: { deleteMany: { content: 'hello' } } } }
+        ];
+        for (const args of filters) {
+            expect(() => encryptArgs(args, 'patient')).toThrow(/Cannot filter on encrypted field/);
+        }
+
+        expect(() => encryptArgs({ where: { OR: [{ phoneHash: 'abc' }, { alternatePhoneHashes: { has: 'abc' } }] } }, 'patient')).not.toThrow();
+        expect(() => encryptArgs({ where: { patient: { reminderConsent: true } } }, 'appointment')).not.toThrow();
+    });
+});
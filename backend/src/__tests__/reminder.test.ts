@@ -0,0 +1,152 @@
+// src/__tests__/reminder.test.ts
+import { PrismaClient } from '@prisma/client';
+import conversationStateService from '../services/conversationStateService';
+import reminderService, { getDueReminderOffset } from '../services/reminderService';
+
+const prisma = new PrismaClient();
+
+// Mock the wasenderService so reminders can be sent without WasenderAPI
+jest.mock('../services/wasenderService');
+import wasenderService from '../services/wasenderService';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Appointment reminders', () => {
+    const appointmentDate = new Date('2030-01-07T10:00:00.000Z');
+    const patient = '15550002222@s.whatsapp.net';
+    let userId: string;
+    let whatsappSessionId: string;
+    let appointmentId: string;
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'reminder-test@example.com'
+            }
+        });
+
+        const user = await prisma.user.create({
+            data: {
+                email: 'reminder-test@example.com',
+                password: 'not-a-real-hash',
+                clinicName: 'Test Reminder Clinic',
+                languagePreference: 'en',
+                clinicSettings: { create: {} }
+            }
+        });
+        userId = user.id;
+
+        const session = await prisma.whatsappSession.create({
+            data: {
+                userId,
+                sessionId: '1',
+                apiKey: 'test-api-key',
+                webhookSecret: 'test-webhook-secret',
+                phoneNumber: '+1234567890',
+                status: 'connected'
+            }
+        });
+        whatsappSessionId = session.id;
+
+        const clinicSetting = await prisma.clinicSetting.findUniqueOrThrow({ where: { userId } });
+        const service = await prisma.service.create({
+            data: {
+                nameEn: 'Cleaning',
+                price: 50,
+                currency: 'USD',
+                duration: 30,
+                clinicSettingId: clinicSetting.id
+            }
+        });
+
+        const appointment = await prisma.appointment.create({
+            data: {
+                userId,
+                patientName: 'Jane Doe',
+                patientPhone: '+15550002222',
+                serviceId: service.id,
+                appointmentDate,
+                status: 'scheduled'
+            }
+        });
+        appointmentId = appointment.id;
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (wasenderService.sendMessage as jest.MockedFunction<any>).mockResolvedValue({
+            success: true,
+            data: { msgId: 7 }
+        });
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'reminder-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should pick the closest reminder whose time has come', () => {
+        const offsets = [24 * 60, 2 * 60];
+
+        expect(getDueReminderOffset(appointmentDate, new Date(appointmentDate.getTime() - 30 * HOUR), offsets)).toBeNull();
+        expect(getDueReminderOffset(appointmentDate, new Date(appointmentDate.getTime() - 24 * HOUR), offsets)).toBe(24 * 60);
+        expect(getDueReminderOffset(appointmentDate, new Date(appointmentDate.getTime() - 10 * HOUR), offsets)).toBe(24 * 60);
+        expect(getDueReminderOffset(appointmentDate, new Date(appointmentDate.getTime() - HOUR), offsets)).toBe(2 * 60);
+        expect(getDueReminderOffset(appointmentDate, appointmentDate, offsets)).toBeNull();
+    });
+
+    it('should send each reminder once as the clock advances', async () => {
+        expect(await reminderService.processDue(new Date(appointmentDate.getTime() - 30 * HOUR))).toBe(0);
+
+        expect(await reminderService.processDue(new Date(appointmentDate.getTime() - 23 * HOUR))).toBe(1);
+        expect(await reminderService.processDue(new Date(appointmentDate.getTime() - 22 * HOUR))).toBe(0);
+
+        expect(await reminderService.processDue(new Date(appointmentDate.getTime() - 2 * HOUR))).toBe(1);
+
+        expect(wasenderService.sendMessage).toHaveBeenCalledTimes(2);
+        expect(wasenderService.sendMessage).toHaveBeenCalledWith('test-api-key', expect.objectContaining({ to: '15550002222' }));
+
+        const reminders = await prisma.appointmentReminder.findMany({ where: { appointmentId } });
+        expect(reminders.map((reminder) => reminder.offsetMinutes).sort((a, b) => a - b)).toEqual([120, 1440]);
+    });
+
+    it('should confirm the appointment when the patient replies 1', async () => {
+        const state = await conversationStateService.get(whatsappSessionId, patient);
+        expect(state).toMatchObject({ flow: 'reminder', data: { appointmentId } });
+
+        const clinicSettings = await prisma.clinicSetting.findUniqueOrThrow({ where: { userId } });
+        const reply = await reminderService.handleReply(
+            { whatsappSessionId, senderNumber: patient, language: 'en', clinicSettings },
+            state!,
+            '1'
+        );
+
+        expect(reply).toContain('confirmed');
+        const appointment = await prisma.appointment.findUniqueOrThrow({ where: { id: appointmentId } });
+        expect(appointment.status).toBe('confirmed');
+        expect(await conversationStateService.get(whatsappSessionId, patient)).toBeNull();
+    });
+
+    it('should send to hand-typed numbers and skip ones that are not valid', async () => {
+        const date = new Date('2030-02-04T10:00:00.000Z');
+        const { serviceId } = await prisma.appointment.findUniqueOrThrow({ where: { id: appointmentId } });
+        const [, local] = await Promise.all(['00 1 (555) 000-3333', '050 123 4567'].map((patientPhone) =>
+            prisma.appointment.create({
+                data: { userId, patientName: 'John Doe', patientPhone, serviceId, appointmentDate: date, status: 'scheduled' }
+            })
+        ));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await reminderService.processDue(new Date(date.getTime() - 23 * HOUR))).toBe(1);
+        expect(wasenderService.sendMessage).toHaveBeenCalledTimes(1);
+        expect(wasenderService.sendMessage).toHaveBeenCalledWith('test-api-key', expect.objectContaining({ to: '15550003333' }));
+
+        // The reminder is not recorded as sent, so it goes out once staff fix the number
+        expect(await prisma.appointmentReminder.count({ where: { appointmentId: local.id } })).toBe(0);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining(local.id));
+    });
+});
@@ -0,0 +1,176 @@
+// src/__tests__/wasenderService.test.ts
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    WasenderApiError,
+    WasenderAuthError,
+    WasenderRateLimitError,
+    WasenderService,
+    WasenderTimeoutError
+} from '../services/wasenderService';
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    authorization: string;
+    body: any;
+}
+
+interface MockResponse {
+    status?: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+    delayMs?: number;
+}
+
+// A stand-in for WasenderAPI on a local port, answering with whatever the test's responder returns
+describe('WasenderService against a mock WasenderAPI', () => {
+    let server: http.Server;
+    let baseURL: string;
+    let requests: RecordedRequest[];
+    let respond: (request: RecordedRequest) => MockResponse;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const recorded = {
+                    method: req.method!,
+                    path: req.url!,
+                    authorization: req.headers.authorization ?? '',
+                    body: raw ? JSON.parse(raw) : undefined
+                };
+                requests.push(recorded);
+
+                const { status = 200, body = { success: true }, headers = {}, delayMs = 0 } = respond(recorded);
+                setTimeout(() => {
+                    if (!res.destroyed) {
+                        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+                        res.end(JSON.stringify(body));
+                    }
+                }, delayMs);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        respond = () => ({});
+    });
+
+    it('should send every message with its own clinic\'s API key when clinics send at once', async () => {
+        const service = new WasenderService({ baseURL });
+        // Answer in random order, so requests of different clinics overlap
+        respond = ({ method, authorization, body }) => ({
+            body: method === 'POST'
+                ? { success: true, data: { msgId: `${authorization}|${body.to}` } }
+                : { success: true, status: 'connected', checkedWith: authorization },
+            delayMs: Math.floor(Math.random() * 20)
+        });
+
+        const clinics = Array.from({ length: 20 }, (_, index) => ({ apiKey: `clinic-${index}-key`, to: `9715000000${String(index).padStart(2, '0')}` }));
+        const results = await Promise.all(clinics.flatMap(({ apiKey, to }) => [
+            ...Array.from({ length: 5 }, (_, message) => service.sendMessage(apiKey, { to, text: `Reminder ${message}` })),
+            service.getSessionStatus(apiKey, 1)
+        ]));
+
+        expect(requests).toHaveLength(clinics.length * 6);
+        for (const { apiKey, to } of clinics) {
+            const sends = requests.filter((request) => request.body?.to === to);
+            expect(sends).toHaveLength(5);
+            expect(sends.every((request) => request.authorization === `Bearer ${apiKey}`)).toBe(true);
+        }
+        // Each caller also gets the answer to its own request back
+        clinics.forEach(({ apiKey, to }, index) => {
+            const [sends, status] = [results.slice(index * 6, index * 6 + 5), results[index * 6 + 5]];
+            expect(sends.every((result) => result.data.msgId === `Bearer ${apiKey}|${to}`)).toBe(true);
+            expect(status.checkedWith).toBe(`Bearer ${apiKey}`);
+        });
+    });
+
+    it('should retry rate limits and unavailability with backoff', async () => {
+        const service = new WasenderService({ baseURL, retryDelayMs: 1 });
+        let attempts = 0;
+        respond = () => {
+            attempts++;
+            if (attempts === 1) {
+                return { status: 429, body: { message: 'Too many requests' }, headers: { 'Retry-After': '0' } };
+            }
+            if (attempts === 2) {
+                return { status: 503, body: { message: 'Service unavailable' } };
+            }
+            return { body: { success: true, data: { msgId: 7 } } };
+        };
+
+        await expect(service.sendMessage('clinic-key', { to: '15550001111', text: 'Hello' })).resolves.toEqual({ success: true, data: { msgId: 7 } });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+        const service = new WasenderService({ baseURL, maxRetries: 2, retryDelayMs: 1 });
+        respond = () => ({ status: 429, body: { message: 'Too many requests' }, headers: { 'Retry-After': '0' } });
+
+        const error = await service.sendMessage('clinic-key', { to: '15550001111', text: 'Hello' }).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(WasenderRateLimitError);
+        expect(error).toMatchObject({ status: 429, details: { message: 'Too many requests' }, retryAfterMs: 0 });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should raise typed errors without retrying client errors', async () => {
+        const service = new WasenderService({ baseURL, retryDelayMs: 1 });
+
+        respond = () => ({ status: 401, body: { message: 'Invalid API key' } });
+        const authError = await service.getQRCode('revoked-key', { whatsappSessionId: 1 }).catch((caught) => caught);
+        expect(authError).toBeInstanceOf(WasenderAuthError);
+        expect(authError.message).toBe('Error getting QR code: Invalid API key');
+
+        respond = () => ({ status: 422, body: { message: 'The to field is required' } });
+        const validationError = await service.sendMessage('clinic-key', { to: '', text: 'Hello' }).catch((caught) => caught);
+        expect(validationError).toBeInstanceOf(WasenderApiError);
+        expect(validationError).toMatchObject({ status: 422, details: { message: 'The to field is required' } });
+
+        expect(requests).toHaveLength(2);
+    });
+
+    it('should not resend messages after gateway errors, which may follow a delivery', async () => {
+        const service = new WasenderService({ baseURL, retryDelayMs: 1 });
+        respond = () => ({ status: 502, body: { message: 'Bad gateway' } });
+
+        const error = await service.sendMessage('clinic-key', { to: '15550001111', text: 'Hello' }).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(WasenderApiError);
+        expect(error.status).toBe(502);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should retry connections that could not be opened', async () => {
+        // A port nothing listens on
+        const closed = http.createServer();
+        await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+        const { port } = closed.address() as AddressInfo;
+        await new Promise((resolve) => closed.close(resolve));
+
+        const service = new WasenderService({ baseURL: `http://127.0.0.1:${port}`, maxRetries: 2, retryDelayMs: 1 });
+        const request = jest.spyOn((service as any).apiClient, 'request');
+
+        await expect(service.sendMessage('clinic-key', { to: '15550001111', text: 'Hello' })).rejects.toBeInstanceOf(WasenderApiError);
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should time out slow calls without resending them', async () => {
+        const service = new WasenderService({ baseURL, timeoutMs: 50, retryDelayMs: 1 });
+        respond = () => ({ delayMs: 500 });
+
+        await expect(service.sendMessage('clinic-key', { to: '15550001111', text: 'Hello' })).rejects.toBeInstanceOf(WasenderTimeoutError);
+        expect(requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,45 @@
+// src/__tests__/webhook.test.ts
+import request from 'supertest';
+import { app } from '../server';
+
+describe('Webhook API', () => {
+    it('should be reachable without a JWT and require a signature', async () => {
+        const response = await request(app)
+            .post('/api/webhooks/wasender')
+            .send({ event: 'messages.received', data: {} })
+            .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Missing X-Webhook-Signature header');
+    });
+
+    it('should reject payloads without an event', async () => {
+        const response = await request(app)
+            .post('/api/webhooks/wasender')
+            .set('X-Webhook-Signature', 'some-secret')
+            .send({ data: {} })
+            .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Invalid webhook  missing event');
+    });
+
+    it('should take webhooks only for known providers, each with its own signature header', async () => {
+        await request(app)
+            .post('/api/webhooks/unknown-gateway')
+            .set('X-Webhook-Signature', 'some-secret')
+            .send({ event: 'messages.received', data: {} })
+            .expect(404);
+
+        const response = await request(app)
+            .post('/api/webhooks/cloud/some-session')
+            .send({ object: 'whatsapp_business_account', entry: [] })
+            .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'Missing X-Hub-Signature-256 header');
+    });
+
+    it('should keep the WhatsApp session routes behind authentication', async () => {
+        await request(app)
+            .get('/api/whatsapp-sessions')
+            .expect(401);
+    });
+});
@@ -0,0 +1,125 @@
+// src/__tests__/webhookQueue.test.ts
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import webhookEventService from '../services/webhookEventService';
+import webhookQueue, { getRetryDelay } from '../services/webhookQueue';
+
+const prisma = new PrismaClient();
+
+// Mock the event handlers so the queue can be driven without WasenderAPI
+jest.mock('../services/webhookProcessor', () => ({
+    loadSessionForProcessing: jest.fn(async (id: string) => ({ id })),
+    processWebhookEvent: jest.fn()
+}));
+import { processWebhookEvent } from '../services/webhookProcessor';
+
+describe('Webhook queue', () => {
+    let whatsappSessionId: string;
+
+    beforeAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'queue-test@example.com'
+            }
+        });
+
+        const user = await prisma.user.create({
+            data: {
+                email: 'queue-test@example.com',
+                password: 'not-a-real-hash',
+                clinicName: 'Test Queue Clinic'
+            }
+        });
+
+        const session = await prisma.whatsappSession.create({
+            data: {
+                userId: user.id,
+                sessionId: '1',
+                apiKey: 'test-api-key',
+                webhookSecret: 'test-webhook-secret',
+                phoneNumber: '+1234567890',
+                status: 'connected'
+            }
+        });
+        whatsappSessionId = session.id;
+    });
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        await prisma.webhookEvent.deleteMany({ where: { whatsappSessionId } });
+    });
+
+    afterAll(async () => {
+        await prisma.user.deleteMany({
+            where: {
+                email: 'queue-test@example.com'
+            }
+        });
+        await prisma.$disconnect();
+    });
+
+    it('should back off exponentially between attempts', () => {
+        expect(getRetryDelay(1)).toBe(30000);
+        expect(getRetryDelay(2)).toBe(60000);
+        expect(getRetryDelay(4)).toBe(240000);
+    });
+
+    it('should refuse to enqueue the same event twice', async () => {
+        const payload = { event: 'messages.update', data: {}, timestamp: 1 };
+
+        expect(await webhookEventService.enqueue(whatsappSessionId, 'evt_dup', payload)).toBe(true);
+        expect(await webhookEventService.enqueue(whatsappSessionId, 'evt_dup', payload)).toBe(false);
+    });
+
+    it('should process a queued event', async () => {
+        await webhookEventService.enqueue(whatsappSessionId, 'evt_ok', { event: 'messages.update' });
+
+        expect(await webhookQueue.processDue()).toBe(1);
+
+        const event = await prisma.webhookEvent.findFirst({ where: { whatsappSessionId, eventId: 'evt_ok' } });
+        expect(event).toHaveProperty('status', 'processed');
+        expect(processWebhookEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store payloads encrypted and drop them once processed', async () => {
+        process.env.FIELD_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+        const payload = { event: 'messages.received', data: { message: { conversation: 'My tooth hurts' } } };
+
+        try {
+            await webhookEventService.enqueue(whatsappSessionId, 'evt_secret', payload);
+
+            let event = await prisma.webhookEvent.findFirst({ where: { whatsappSessionId, eventId: 'evt_secret' } });
+            expect(JSON.stringify(event!.payload)).not.toContain('My tooth hurts');
+
+            await webhookQueue.processDue();
+
+            expect(processWebhookEvent).toHaveBeenCalledWith(payload, { id: whatsappSessionId });
+            event = await prisma.webhookEvent.findFirst({ where: { whatsappSessionId, eventId: 'evt_secret' } });
+            expect(event).toMatchObject({ status: 'processed', payload: null });
+        } finally {
+            delete process.env.FIELD_ENCRYPTION_KEYS;
+        }
+    });
+
+    it('should retry failed events with backoff and then dead-letter them', async () => {
+        (processWebhookEvent as jest.MockedFunction<any>).mockRejectedValue(new Error('provider timeout'));
+        await webhookEventService.enqueue(whatsappSessionId, 'evt_fail', { event: 'messages.received' });
+
+        let now = new Date();
+        await webhookQueue.processDue(now);
+
+        let event = await prisma.webhookEvent.findFirst({ where: { whatsappSessionId, eventId: 'evt_fail' } });
+        expect(event).toMatchObject({ status: 'pending', attempts: 1, lastError: 'provider timeout' });
+
+        // Not due again until the backoff has passed
+        expect(await webhookQueue.processDue(now)).toBe(0);
+
+        for (let attempt = 2; attempt <= 5; attempt++) {
+            now = new Date(now.getTime() + getRetryDelay(attempt - 1));
+            await webhookQueue.processDue(now);
+        }
+
+        event = await prisma.webhookEvent.findFirst({ where: { whatsappSessionId, eventId: 'evt_fail' } });
+        expect(event).toMatchObject({ status: 'dead', attempts: 5 });
+    });
+});
@@ -0,0 +1,53 @@
+// src/__tests__/webhookSecurity.test.ts
+import crypto from 'crypto';
+import { hashWebhookSecret, verifySignature } from '../utils/webhookSecurity';
+import webhookEventService from '../services/webhookEventService';
+
+describe('Webhook signature verification', () => {
+    const secret = 'test-webhook-secret';
+    const rawBody = Buffer.from(JSON.stringify({ event: 'messages.received', timestamp: 1700000000 }));
+    const hmac = crypto.createHmac('sha256', secret).update(rawBody).digest();
+
+    it('should accept the secret sent as-is', () => {
+        expect(verifySignature(rawBody, secret, secret)).toBe(true);
+    });
+
+    it('should accept an HMAC of the raw body in hex or base64', () => {
+        expect(verifySignature(rawBody, hmac.toString('hex'), secret)).toBe(true);
+        expect(verifySignature(rawBody, `sha256=${hmac.toString('hex')}`, secret)).toBe(true);
+        expect(verifySignature(rawBody, hmac.toString('base64'), secret)).toBe(true);
+    });
+
+    it('should reject wrong secrets, tampered bodies and empty values', () => {
+        expect(verifySignature(rawBody, 'other-secret', secret)).toBe(false);
+        expect(verifySignature(Buffer.from('{"event":"forged"}'), hmac.toString('hex'), secret)).toBe(false);
+        expect(verifySignature(rawBody, '', secret)).toBe(false);
+        expect(verifySignature(rawBody, secret, '')).toBe(false);
+    });
+
+    it('should hash secrets deterministically for session lookup', () => {
+        expect(hashWebhookSecret(secret)).toBe(hashWebhookSecret(secret));
+        expect(hashWebhookSecret(secret)).not.toContain(secret);
+    });
+});
+
+describe('Webhook replay protection', () => {
+    const now = 1700000000000;
+
+    it('should accept timestamps inside the tolerance window in seconds or milliseconds', () => {
+        expect(webhookEventService.isWithinTolerance(now / 1000 - 60, now)).toBe(true);
+        expect(webhookEventService.isWithinTolerance(now + 60000, now)).toBe(true);
+        expect(webhookEventService.isWithinTolerance(undefined, now)).toBe(true);
+    });
+
+    it('should reject stale or malformed timestamps', () => {
+        expect(webhookEventService.isWithinTolerance(now / 1000 - 3600, now)).toBe(false);
+        expect(webhookEventService.isWithinTolerance('yesterday', now)).toBe(false);
+    });
+
+    it('should derive the same event ID for the same payload', () => {
+        const rawBody = '{"event":"messages.update"}';
+        expect(webhookEventService.getEventId(rawBody, {}, {})).toBe(webhookEventService.getEventId(rawBody, {}, {}));
+        expect(webhookEventService.getEventId(rawBody, {}, { 'x-webhook-id': 'evt_1' })).toBe('evt_1');
+    });
+});
@@ -2,6 +2,7 @@
 import request from 'supertest';
 import { PrismaClient } from '@prisma/client';
 import { app } from '../server';
+import { hashWebhookSecret } from '../utils/webhookSecurity';
 
 const prisma = new PrismaClient();
 
@@ -54,7 +55,7 @@ describe('WhatsApp Session API', () => {
         });
 
         const response = await request(app)
-        .post('/api/whatsapp/sessions')
+        .post('/api/whatsapp-sessions')
         .set('Authorization', `Bearer ${authToken}`)
         .send({
             name: 'Test Session',
@@ -72,10 +73,74 @@ describe('WhatsApp Session API', () => {
 
     it('should get all WhatsApp sessions for a user', async () => {
         const response = await request(app)
-        .get('/api/whatsapp/sessions')
+        .get('/api/whatsapp-sessions')
         .set('Authorization', `Bearer ${authToken}`)
         .expect(200);
 
         expect(Array.isArray(response.body)).toBe(true);
     });
-});
\ No newline at end of file
+
+    it('should connect a session without exposing its credentials', async () => {
+        const session = await prisma.whatsappSession.findFirstOrThrow({ where: { userId } });
+        (wasenderService.connectSession as jest.MockedFunction<any>).mockResolvedValue({
+        success: true,
+        data: { status: 'NEED_SCAN' }
+        });
+
+        const response = await request(app)
+        .post(`/api/whatsapp-sessions/${session.id}/connect`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+        expect(response.body.session).toHaveProperty('status', 'NEED_SCAN');
+        expect(response.body.session).not.toHaveProperty('apiKey');
+        expect(response.body.session).not.toHaveProperty('webhookSecret');
+    });
+
+    it('should rotate the credentials of a session', async () => {
+        const session = await prisma.whatsappSession.findFirstOrThrow({ where: { userId } });
+        (wasenderService.regenerateApiKey as jest.MockedFunction<any>).mockResolvedValue({
+        success: true,
+        api_key: 'rotated-api-key'
+        });
+        (wasenderService.getSessionDetails as jest.MockedFunction<any>).mockResolvedValue({
+        success: true,
+        data: { id: 1, webhook_secret: 'rotated-webhook-secret' }
+        });
+
+        const response = await request(app)
+        .post(`/api/whatsapp-sessions/${session.id}/rotate-credentials`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+        expect(response.body.session).not.toHaveProperty('apiKey');
+
+        const rotated = await prisma.whatsappSession.findUniqueOrThrow({ where: { id: session.id } });
+        expect(rotated.webhookSecretHash).toBe(hashWebhookSecret('rotated-webhook-secret'));
+        expect(rotated.apiKey).not.toBe(session.apiKey);
+    });
+
+    it('should run a session on another provider', async () => {
+        const response = await request(app)
+        .post('/api/whatsapp-sessions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Local Session', phone_number: '+15550009999', provider: 'memory' })
+        .expect(201);
+
+        expect(response.body.session).toMatchObject({ provider: 'memory', status: 'connected' });
+        expect(wasenderService.createSession).not.toHaveBeenCalled();
+
+        const qrResponse = await request(app)
+        .get(`/api/whatsapp-sessions/${response.body.session.id}/qrcode`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+        expect(qrResponse.body.qrCode).toBe(`memory-qr:${response.body.session.sessionId}`);
+
+        await request(app)
+        .post('/api/whatsapp-sessions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Pigeon Session', phone_number: '+15550009999', provider: 'carrier-pigeon' })
+        .expect(400);
+    });
+});
@@ -0,0 +1,118 @@
+// src/__tests__/workingHours.test.ts
+import {
+    getDayIntervals,
+    getOpenStatus,
+    getUpcomingClosures,
+    toMinutes,
+    toWorkingHours,
+    validateWorkingHours
+} from '../utils/workingHours';
+import { getZonedDateTime, isValidTimeZone, zonedTimeToDate } from '../utils/timezone';
+
+describe('Working hours validation', () => {
+    it('should accept the shape used by the bot', () => {
+        expect(validateWorkingHours({
+            sunday: { open: '09:00', close: '17:00' },
+            friday: null
+        })).toBeNull();
+        expect(validateWorkingHours(null)).toBeNull();
+    });
+
+    it('should reject unknown days, bad times and inverted ranges', () => {
+        expect(validateWorkingHours([])).toBe('Working hours must be an object keyed by day name');
+        expect(validateWorkingHours({ funday: { open: '09:00', close: '17:00' } })).toBe('Unknown day "funday" in working hours');
+        expect(validateWorkingHours({ monday: { open: '09:00' } })).toBe('Working hours for monday need "open" and "close" times');
+        expect(validateWorkingHours({ monday: { open: '9am', close: '17:00' } })).toBe('Working hours for monday must use the HH:MM format');
+        expect(validateWorkingHours({ monday: { open: '18:00', close: '17:00' } })).toBe('Opening time for monday must be before closing time');
+    });
+
+    it('should convert times to minutes', () => {
+        expect(toMinutes('09:30')).toBe(570);
+        expect(toMinutes('24:00')).toBe(1440);
+        expect(toMinutes('25:00')).toBeNull();
+    });
+
+    it('should accept several shifts and breaks within them', () => {
+        expect(validateWorkingHours({
+            sunday: { shifts: [{ open: '16:00', close: '20:00' }, { open: '09:00', close: '13:00' }] },
+            monday: { open: '09:00', close: '18:00', breaks: [{ start: '13:00', end: '14:00' }] }
+        })).toBeNull();
+    });
+
+    it('should reject overlapping shifts and misplaced breaks', () => {
+        expect(validateWorkingHours({ sunday: { shifts: [] } })).toBe('Shifts for sunday must be a non-empty list');
+        expect(validateWorkingHours({
+            sunday: { shifts: [{ open: '09:00', close: '13:00' }, { open: '12:00', close: '16:00' }] }
+        })).toBe('Shifts for sunday must not overlap');
+        expect(validateWorkingHours({
+            monday: { open: '09:00', close: '18:00', breaks: [{ start: '14:00', end: '13:00' }] }
+        })).toBe('Breaks for monday need a "start" before their "end" in the HH:MM format');
+        expect(validateWorkingHours({
+            monday: { open: '09:00', close: '18:00', breaks: [{ start: '17:30', end: '19:00' }] }
+        })).toBe('Breaks for monday must fall within its opening hours');
+    });
+});
+
+describe('Clinic schedule', () => {
+    const workingHours = {
+        monday: { open: '09:00', close: '18:00', breaks: [{ start: '13:00', end: '14:00' }] },
+        tuesday: { shifts: [{ open: '16:00', close: '20:00' }, { open: '09:00', close: '12:00' }] }
+    };
+    const schedule = { workingHours, timezone: 'Asia/Dubai' };
+    // Wall-clock time in Dubai (UTC+4)
+    const dubai = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2025, 0, day, hours - 4, minutes));
+
+    it('should split days into shifts without their breaks', () => {
+        expect(getDayIntervals(workingHours.monday)).toEqual([[540, 780], [840, 1080]]);
+        expect(getDayIntervals(workingHours.tuesday)).toEqual([[540, 720], [960, 1200]]);
+        expect(getDayIntervals(null)).toEqual([]);
+    });
+
+    it('should tell whether the clinic is open now and until when', () => {
+        expect(getOpenStatus(schedule, dubai(6, 10))).toEqual({ isOpen: true, closesAt: dubai(6, 13), nextOpening: null });
+    });
+
+    it('should find the next opening after breaks, closing time and closures', () => {
+        expect(getOpenStatus(schedule, dubai(6, 13, 30)).nextOpening).toEqual(dubai(6, 14));
+        expect(getOpenStatus(schedule, dubai(6, 19)).nextOpening).toEqual(dubai(7, 9));
+        expect(getOpenStatus(schedule, dubai(7, 12, 30)).nextOpening).toEqual(dubai(7, 16));
+
+        const closures = [{ startDate: '2025-01-07', endDate: '2025-01-12' }];
+        expect(getOpenStatus({ ...schedule, closures }, dubai(6, 19)).nextOpening).toEqual(dubai(13, 9));
+    });
+
+    it('should report no opening when no hours are set', () => {
+        expect(getOpenStatus({ workingHours: null }, dubai(6, 10))).toEqual({ isOpen: false, closesAt: null, nextOpening: null });
+        expect(toWorkingHours('{"monday":{}}')).toEqual({});
+    });
+
+    it('should list closures that are not over yet', () => {
+        const closures = [
+            { startDate: '2025-02-20', endDate: '2025-02-20' },
+            { startDate: '2025-01-01', endDate: '2025-01-02' },
+            { startDate: '2025-01-05', endDate: '2025-01-08', reasonEn: 'Renovation' }
+        ];
+
+        expect(getUpcomingClosures({ closures, timezone: 'Asia/Dubai' }, dubai(6, 10), 30)).toEqual([closures[2]]);
+    });
+});
+
+describe('Time zones', () => {
+    it('should convert between instants and clinic wall-clock time', () => {
+        expect(getZonedDateTime(new Date('2025-01-06T20:30:00Z'), 'Asia/Dubai'))
+            .toEqual({ year: 2025, month: 1, day: 7, weekday: 2, minutes: 30 });
+        expect(zonedTimeToDate(2025, 1, 7, 30, 'Asia/Dubai')).toEqual(new Date('2025-01-06T20:30:00Z'));
+    });
+
+    it('should follow daylight saving time', () => {
+        // London is on UTC in winter and UTC+1 in summer
+        expect(zonedTimeToDate(2025, 1, 6, 9 * 60, 'Europe/London')).toEqual(new Date('2025-01-06T09:00:00Z'));
+        expect(zonedTimeToDate(2025, 7, 7, 9 * 60, 'Europe/London')).toEqual(new Date('2025-07-07T08:00:00Z'));
+    });
+
+    it('should validate time zone names', () => {
+        expect(isValidTimeZone('Asia/Dubai')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+        expect(isValidTimeZone('')).toBe(false);
+    });
+});
@@ -0,0 +1,278 @@
+// src/controllers/appointmentController.ts
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import bookingService from '../services/bookingService';
+import patientService from '../services/patientService';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+const APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'completed', 'cancelled'];
+
+// Helper function to parse an optional date query/body value
+function parseDate(value: unknown): Date | null {
+    if (typeof value !== 'string' || !value) {
+        return null;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Helper function to find a service that belongs to the user's clinic
+function findClinicService(userId: string, serviceId: string) {
+    return prisma.service.findFirst({
+        where: {
+            id: serviceId,
+            clinicSetting: { userId }
+        }
+    });
+}
+
+export const getAppointments = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { from, to, status, serviceId } = req.query;
+
+        const fromDate = parseDate(from);
+        const toDate = parseDate(to);
+
+        if ((from && !fromDate) || (to && !toDate)) {
+            return res.status(400).json({ error: 'Invalid date range' });
+        }
+
+        if (status && !APPOINTMENT_STATUSES.includes(status as string)) {
+            return res.status(400).json({ error: `Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}` });
+        }
+
+        const appointments = await prisma.appointment.findMany({
+            where: {
+                userId,
+                ...(status && { status: status as string }),
+                ...(serviceId && { serviceId: serviceId as string }),
+                ...((fromDate || toDate) && {
+                    appointmentDate: {
+                        ...(fromDate && { gte: fromDate }),
+                        ...(toDate && { lte: toDate }),
+                    }
+                }),
+            },
+            include: {
+                service: true
+            },
+            orderBy: {
+                appointmentDate: 'asc'
+            }
+        });
+
+        res.json(appointments);
+    } catch (error) {
+        console.error('Error getting appointments:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const getAppointment = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { appointmentId } = req.params;
+
+        const appointment = await prisma.appointment.findFirst({
+            where: {
+                id: appointmentId,
+                userId
+            },
+            include: {
+                service: true
+            }
+        });
+
+        if (!appointment) {
+            return res.status(404).json({ error: 'Appointment not found' });
+        }
+
+        res.json(appointment);
+    } catch (error) {
+        console.error('Error getting appointment:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const createAppointment = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { patientName, patientPhone, serviceId, appointmentDate, notes } = req.body;
+
+        if (!patientName || !patientPhone || !serviceId || !appointmentDate) {
+            return res.status(400).json({ error: 'Patient name, patient phone, service and appointment date are required' });
+        }
+
+        const date = parseDate(appointmentDate);
+        if (!date) {
+            return res.status(400).json({ error: 'Invalid appointment date' });
+        }
+
+        const service = await findClinicService(userId, serviceId);
+        if (!service) {
+            return res.status(404).json({ error: 'Service not found' });
+        }
+
+        if (await bookingService.hasConflict(userId, date, service.duration)) {
+            return res.status(409).json({ error: 'The requested time overlaps another appointment' });
+        }
+
+        // Phones without a country code cannot be matched to a patient, but can still be booked
+        const patient = await patientService.findOrCreate(userId, patientPhone, { name: patientName });
+
+        // Checked again together with the insert, in case the slot was booked in the meantime
+        const appointment = await bookingService.bookSlot(userId, date, service.duration, (tx) => tx.appointment.create({
+            data: {
+                userId,
+                patientName,
+                patientPhone,
+                serviceId,
+                appointmentDate: date,
+                status: 'scheduled',
+                notes,
+                patientId: patient?.id,
+            },
+            include: {
+                service: true
+            }
+        }));
+
+        if (!appointment) {
+            return res.status(409).json({ error: 'The requested time overlaps another appointment' });
+        }
+
+        res.status(201).json({
+            message: 'Appointment created successfully',
+            appointment
+        });
+    } catch (error) {
+        console.error('Error creating appointment:', error);
+        res.status(500).json({ error: 'Internal server error during appointment creation' });
+    }
+};
+
+export const rescheduleAppointment = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { appointmentId } = req.params;
+        const { appointmentDate, serviceId } = req.body;
+
+        const date = parseDate(appointmentDate);
+        if (!date) {
+            return res.status(400).json({ error: 'A valid appointment date is required' });
+        }
+
+        const appointment = await prisma.appointment.findFirst({
+            where: {
+                id: appointmentId,
+                userId
+            }
+        });
+
+        if (!appointment) {
+            return res.status(404).json({ error: 'Appointment not found' });
+        }
+
+        if (appointment.status === 'cancelled' || appointment.status === 'completed') {
+            return res.status(400).json({ error: `Cannot reschedule a ${appointment.status} appointment` });
+        }
+
+        const service = await findClinicService(userId, serviceId || appointment.serviceId);
+        if (!service) {
+            return res.status(404).json({ error: 'Service not found' });
+        }
+
+        if (await bookingService.hasConflict(userId, date, service.duration, appointment.id)) {
+            return res.status(409).json({ error: 'The requested time overlaps another appointment' });
+        }
+
+        const updatedAppointment = await bookingService.bookSlot(userId, date, service.duration, async (tx) => {
+            // Reminders sent for the old time should go out again for the new one
+            await tx.appointmentReminder.deleteMany({
+                where: { appointmentId: appointment.id }
+            });
+
+            return tx.appointment.update({
+                where: {
+                    id: appointment.id
+                },
+                data: {
+                    appointmentDate: date,
+                    serviceId: service.id,
+                    status: 'scheduled'
+                },
+                include: {
+                    service: true
+                }
+            });
+        }, appointment.id);
+
+        if (!updatedAppointment) {
+            return res.status(409).json({ error: 'The requested time overlaps another appointment' });
+        }
+
+        res.json({
+            message: 'Appointment rescheduled successfully',
+            appointment: updatedAppointment
+        });
+    } catch (error) {
+        console.error('Error rescheduling appointment:', error);
+        res.status(500).json({ error: 'Internal server error during appointment rescheduling' });
+    }
+};
+
+// Helper function to move an appointment to a final status
+async function closeAppointment(req: Request, res: Response, status: 'cancelled' | 'completed') {
+    const userId = (req as any).userId;
+    const { appointmentId } = req.params;
+
+    const appointment = await prisma.appointment.findFirst({
+        where: {
+            id: appointmentId,
+            userId
+        }
+    });
+
+    if (!appointment) {
+        return res.status(404).json({ error: 'Appointment not found' });
+    }
+
+    if (appointment.status === 'cancelled' || appointment.status === 'completed') {
+        return res.status(400).json({ error: `Appointment is already ${appointment.status}` });
+    }
+
+    const updatedAppointment = await prisma.appointment.update({
+        where: {
+            id: appointment.id
+        },
+        data: {
+            status
+        }
+    });
+
+    res.json({
+        message: `Appointment ${status} successfully`,
+        appointment: updatedAppointment
+    });
+}
+
+export const cancelAppointment = async (req: Request, res: Response) => {
+    try {
+        await closeAppointment(req, res, 'cancelled');
+    } catch (error) {
+        console.error('Error cancelling appointment:', error);
+        res.status(500).json({ error: 'Internal server error during appointment cancellation' });
+    }
+};
+
+export const completeAppointment = async (req: Request, res: Response) => {
+    try {
+        await closeAppointment(req, res, 'completed');
+    } catch (error) {
+        console.error('Error completing appointment:', error);
+        res.status(500).json({ error: 'Internal server error during appointment completion' });
+    }
+};
@@ -0,0 +1,120 @@
+// src/controllers/botController.ts
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { generateBotResponse } from '../services/botService';
+import conversationStateService, { ConversationState } from '../services/conversationStateService';
+import languageService, { chooseLanguage } from '../services/languageService';
+import { BotSimulation } from '../types/bot';
+import { OutboundContent } from '../types/message';
+import { detectLanguage, parseLanguageSwitch } from '../utils/languageDetection';
+import { toJid } from '../utils/phone';
+
+const prisma = new PrismaClient();
+
+// Patient number used when the simulator is not told who is writing
+const SIMULATED_SENDER = toJid('0');
+const SIMULATED_STATE_TTL_MINUTES = 30;
+
+// Helper function to check a simulated conversation state such as { flow: 'booking', step: 'selectSlot', data: {...} }
+function validateSimulatedState(state: any): string | null {
+    if (state === undefined || state === null) {
+        return null;
+    }
+    if (typeof state !== 'object' || typeof state.flow !== 'string' || typeof state.step !== 'string') {
+        return 'State needs a "flow" and a "step"';
+    }
+    if (state.data !== undefined && (typeof state.data !== 'object' || state.data === null || Array.isArray(state.data))) {
+        return 'State data must be an object';
+    }
+    return null;
+}
+
+// Run a message through the bot as if a patient sent it, without saving or sending anything.
+// A sender number reuses that patient's remembered language and current conversation state,
+// unless a state is given (null for none).
+export const simulateMessage = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { message, senderNumber, state } = req.body;
+
+        if (typeof message !== 'string' || !message.trim()) {
+            return res.status(400).json({ error: 'Message is required' });
+        }
+        if (senderNumber !== undefined && (typeof senderNumber !== 'string' || !/\d/.test(senderNumber))) {
+            return res.status(400).json({ error: 'Invalid sender number' });
+        }
+
+        const stateError = validateSimulatedState(state);
+        if (stateError) {
+            return res.status(400).json({ error: stateError });
+        }
+
+        // Same clinic data the webhook processor loads for a session
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                clinicSettings: {
+                    include: {
+                        services: { orderBy: { sortOrder: 'asc' } },
+                        customKeywords: { orderBy: [{ priority: 'desc' }, { sortOrder: 'asc' }] },
+                        // Closures still to come; a day of slack covers clinics ahead of UTC
+                        closures: { where: { endDate: { gte: new Date(Date.now() - 24 * 60 * 60000) } }, orderBy: { startDate: 'asc' } }
+                    }
+                },
+                whatsappSessions: {
+                    select: { id: true },
+                    orderBy: { updatedAt: 'desc' },
+                    take: 1
+                }
+            }
+        });
+
+        if (!user?.clinicSettings) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const whatsappSessionId = user.whatsappSessions[0]?.id ?? '';
+        const sender = senderNumber ? toJid(senderNumber) : SIMULATED_SENDER;
+        const knownPatient = Boolean(senderNumber && whatsappSessionId);
+
+        const remembered = knownPatient ? await languageService.getRemembered(whatsappSessionId, sender) : null;
+        const language = parseLanguageSwitch(message)
+            ?? chooseLanguage(detectLanguage(message), remembered, user.languagePreference);
+
+        let conversationState: ConversationState | null = null;
+        if (state) {
+            conversationState = {
+                flow: state.flow,
+                step: state.step,
+                data: state.data || {},
+                expiresAt: new Date(Date.now() + SIMULATED_STATE_TTL_MINUTES * 60000)
+            };
+        } else if (knownPatient && state === undefined) {
+            conversationState = await conversationStateService.get(whatsappSessionId, sender);
+        }
+
+        const simulation: BotSimulation = { state: conversationState, match: null, actions: [] };
+        const attachments: OutboundContent[] = [];
+        const reply = await generateBotResponse(
+            message,
+            { ...user.clinicSettings, user },
+            language,
+            sender,
+            whatsappSessionId,
+            conversationState,
+            { simulation, attachments }
+        );
+
+        res.json({
+            language,
+            match: simulation.match,
+            reply,
+            attachments,
+            state: simulation.state,
+            actions: simulation.actions
+        });
+    } catch (error) {
+        console.error('Error simulating bot response:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
@@ -0,0 +1,770 @@
+// src/controllers/clinicSettingsController.ts
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CATALOGS, pickLocalized, validateMessageOverrides } from '../i18n';
+import { getClinicLanguage } from '../services/languageService';
+import { BOT_INTENTS } from '../types/bot';
+import {
+    KEYWORD_MATCH_MODES,
+    findKeywordRule,
+    isRuleActive,
+    matchRuleTerm,
+    sortKeywordRules,
+    validateActiveWindow,
+    validateKeywordTerms
+} from '../utils/keywordRules';
+import { detectLanguage } from '../utils/languageDetection';
+import { isHttpUrl, validateCoordinates } from '../utils/outboundContent';
+import { isValidTimeZone } from '../utils/timezone';
+import { validateWorkingHours } from '../utils/workingHours';
+
+const prisma = new PrismaClient();
+
+// Helper function to get the clinic settings row of the authenticated user
+function findClinicSetting(userId: string) {
+    return prisma.clinicSetting.findUnique({
+        where: { userId }
+    });
+}
+
+// Helper function to validate service fields; `partial` allows omitting fields on update
+function validateService(body: any, partial: boolean): string | null {
+    const { nameEn, price, duration } = body;
+
+    if (!partial || nameEn !== undefined) {
+        if (typeof nameEn !== 'string' || !nameEn.trim()) {
+            return 'Service name (English) is required';
+        }
+    }
+
+    if (!partial || price !== undefined) {
+        if (typeof price !== 'number' || price < 0) {
+            return 'Price must be a non-negative number';
+        }
+    }
+
+    if (!partial || duration !== undefined) {
+        if (!Number.isInteger(duration) || duration <= 0) {
+            return 'Duration must be a positive number of minutes';
+        }
+    }
+
+    return null;
+}
+
+// Helper function to validate custom keyword fields; `partial` allows omitting fields on update
+function validateKeyword(body: any, partial: boolean): string | null {
+    const { keyword, responseEn, synonyms, matchMode, priority, followUpIntent, activeFrom, activeTo, activeDays } = body;
+
+    if (!partial || keyword !== undefined) {
+        if (typeof keyword !== 'string' || !keyword.trim()) {
+            return 'Keyword is required';
+        }
+    }
+
+    if (!partial || responseEn !== undefined) {
+        if (typeof responseEn !== 'string' || !responseEn.trim()) {
+            return 'Response (English) is required';
+        }
+    }
+
+    if (synonyms !== undefined) {
+        if (!Array.isArray(synonyms) || synonyms.some((synonym) => typeof synonym !== 'string' || !synonym.trim())) {
+            return 'Synonyms must be a list of non-empty strings';
+        }
+    }
+
+    if (matchMode !== undefined && !KEYWORD_MATCH_MODES.includes(matchMode)) {
+        return `Match mode must be one of: ${KEYWORD_MATCH_MODES.join(', ')}`;
+    }
+
+    if (priority !== undefined && !Number.isInteger(priority)) {
+        return 'Priority must be a whole number';
+    }
+
+    if (followUpIntent !== undefined && followUpIntent !== null && !BOT_INTENTS.includes(followUpIntent)) {
+        return `Follow-up must be one of: ${BOT_INTENTS.join(', ')}`;
+    }
+
+    // Active hours are set together, so a partial update cannot leave half a window behind
+    if (activeFrom !== undefined || activeTo !== undefined || activeDays !== undefined) {
+        if ((activeFrom === undefined) !== (activeTo === undefined)) {
+            return 'Active hours need both "activeFrom" and "activeTo"';
+        }
+        const windowError = validateActiveWindow(activeFrom, activeTo, activeDays);
+        if (windowError) {
+            return windowError;
+        }
+    }
+
+    return null;
+}
+
+// Helper function to pick the rule fields of a keyword request, trimmed for storage
+function keywordRuleData(body: any) {
+    const { synonyms, matchMode, priority, followUpIntent, activeFrom, activeTo, activeDays } = body;
+
+    return {
+        ...(synonyms !== undefined && { synonyms: synonyms.map((synonym: string) => synonym.trim()) }),
+        ...(matchMode !== undefined && { matchMode }),
+        ...(priority !== undefined && { priority }),
+        ...(followUpIntent !== undefined && { followUpIntent }),
+        ...(activeFrom !== undefined && { activeFrom, activeTo }),
+        ...(activeDays !== undefined && { activeDays: activeDays ?? [] }),
+    };
+}
+
+// Helper function to validate closure dates ("YYYY-MM-DD"); a closure without an end date lasts one day
+function validateClosure(body: any, partial: boolean): string | null {
+    const { startDate, endDate, reasonEn, reasonAr } = body;
+
+    for (const [field, value] of [['Start date', startDate], ['End date', endDate]]) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+            return `${field} must be a date in the YYYY-MM-DD format`;
+        }
+    }
+
+    if (!partial && !startDate) {
+        return 'Start date is required';
+    }
+
+    if (startDate && endDate && endDate < startDate) {
+        return 'End date must not be before the start date';
+    }
+
+    if ((reasonEn != null && typeof reasonEn !== 'string') || (reasonAr != null && typeof reasonAr !== 'string')) {
+        return 'Reasons must be text';
+    }
+
+    return null;
+}
+
+// Helper function to store a "YYYY-MM-DD" date in a @db.Date column
+function toClosureDate(value: string): Date {
+    return new Date(`${value}T00:00:00Z`);
+}
+
+// Helper function to check a reorder request lists ids that all belong to the clinic
+function validateReorder(ids: unknown, existingIds: string[]): string | null {
+    if (!Array.isArray(ids) || ids.length === 0) {
+        return 'An array of ids is required';
+    }
+
+    if (new Set(ids).size !== ids.length || ids.some((id) => !existingIds.includes(id))) {
+        return 'Ids must be unique and belong to this clinic';
+    }
+
+    return null;
+}
+
+export const getClinicSettings = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId },
+            include: {
+                services: { orderBy: { sortOrder: 'asc' } },
+                customKeywords: { orderBy: [{ priority: 'desc' }, { sortOrder: 'asc' }] },
+                closures: { orderBy: { startDate: 'asc' } }
+            }
+        });
+
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        res.json(clinicSetting);
+    } catch (error) {
+        console.error('Error getting clinic settings:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const updateClinicSettings = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const {
+            greetingMessageEn,
+            greetingMessageAr,
+            workingHours,
+            messageOverrides,
+            timezone,
+            latitude,
+            longitude,
+            priceListImageUrl
+        } = req.body;
+
+        if (workingHours !== undefined) {
+            const workingHoursError = validateWorkingHours(workingHours);
+            if (workingHoursError) {
+                return res.status(400).json({ error: workingHoursError });
+            }
+        }
+
+        if (messageOverrides !== undefined) {
+            const overridesError = validateMessageOverrides(messageOverrides);
+            if (overridesError) {
+                return res.status(400).json({ error: overridesError });
+            }
+        }
+
+        // An IANA name such as "Asia/Dubai"; null falls back to the server's time zone
+        if (timezone !== undefined && timezone !== null && !isValidTimeZone(timezone)) {
+            return res.status(400).json({ error: 'Invalid time zone' });
+        }
+
+        // The map pin is set or cleared as a whole
+        if (latitude !== undefined || longitude !== undefined) {
+            const coordinatesError = validateCoordinates(latitude ?? null, longitude ?? null);
+            if (coordinatesError) {
+                return res.status(400).json({ error: coordinatesError });
+            }
+        }
+
+        if (priceListImageUrl !== undefined && priceListImageUrl !== null && !isHttpUrl(priceListImageUrl)) {
+            return res.status(400).json({ error: 'Price list image must be a public http(s) URL' });
+        }
+
+        const clinicSetting = await findClinicSetting(userId);
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const updatedSetting = await prisma.clinicSetting.update({
+            where: { id: clinicSetting.id },
+            data: {
+                ...(greetingMessageEn !== undefined && { greetingMessageEn }),
+                ...(greetingMessageAr !== undefined && { greetingMessageAr }),
+                ...(workingHours !== undefined && {
+                    workingHours: workingHours === null ? Prisma.DbNull : workingHours
+                }),
+                ...(messageOverrides !== undefined && {
+                    messageOverrides: messageOverrides === null ? Prisma.DbNull : messageOverrides
+                }),
+                ...(timezone !== undefined && { timezone }),
+                ...((latitude !== undefined || longitude !== undefined) && {
+                    latitude: latitude ?? null,
+                    longitude: longitude ?? null
+                }),
+                ...(priceListImageUrl !== undefined && { priceListImageUrl }),
+            }
+        });
+
+        res.json({
+            message: 'Clinic settings updated successfully',
+            clinicSetting: updatedSetting
+        });
+    } catch (error) {
+        console.error('Error updating clinic settings:', error);
+        res.status(500).json({ error: 'Internal server error during clinic settings update' });
+    }
+};
+
+// The bot's default replies in every language, with the clinic's overrides, for the settings editor
+export const getBotMessages = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+
+        const clinicSetting = await findClinicSetting(userId);
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        res.json({
+            defaults: CATALOGS,
+            overrides: clinicSetting.messageOverrides ?? {}
+        });
+    } catch (error) {
+        console.error('Error getting bot messages:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const createService = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { nameEn, nameAr, descriptionEn, descriptionAr, price, currency, duration } = req.body;
+
+        const validationError = validateService(req.body, false);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId },
+            include: { user: true }
+        });
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        // New services go to the end of the price list
+        const count = await prisma.service.count({
+            where: { clinicSettingId: clinicSetting.id }
+        });
+
+        const service = await prisma.service.create({
+            data: {
+                nameEn,
+                nameAr,
+                descriptionEn,
+                descriptionAr,
+                price,
+                currency: currency || clinicSetting.user.currency || 'USD',
+                duration,
+                sortOrder: count,
+                clinicSettingId: clinicSetting.id
+            }
+        });
+
+        res.status(201).json({
+            message: 'Service created successfully',
+            service
+        });
+    } catch (error) {
+        console.error('Error creating service:', error);
+        res.status(500).json({ error: 'Internal server error during service creation' });
+    }
+};
+
+export const updateService = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { serviceId } = req.params;
+        const { nameEn, nameAr, descriptionEn, descriptionAr, price, currency, duration } = req.body;
+
+        const validationError = validateService(req.body, true);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const service = await prisma.service.findFirst({
+            where: {
+                id: serviceId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!service) {
+            return res.status(404).json({ error: 'Service not found' });
+        }
+
+        const updatedService = await prisma.service.update({
+            where: { id: service.id },
+            data: {
+                ...(nameEn !== undefined && { nameEn }),
+                ...(nameAr !== undefined && { nameAr }),
+                ...(descriptionEn !== undefined && { descriptionEn }),
+                ...(descriptionAr !== undefined && { descriptionAr }),
+                ...(price !== undefined && { price }),
+                ...(currency !== undefined && { currency }),
+                ...(duration !== undefined && { duration }),
+            }
+        });
+
+        res.json({
+            message: 'Service updated successfully',
+            service: updatedService
+        });
+    } catch (error) {
+        console.error('Error updating service:', error);
+        res.status(500).json({ error: 'Internal server error during service update' });
+    }
+};
+
+export const deleteService = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { serviceId } = req.params;
+
+        const service = await prisma.service.findFirst({
+            where: {
+                id: serviceId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!service) {
+            return res.status(404).json({ error: 'Service not found' });
+        }
+
+        // Appointments, past ones included, reference their service, so keep services that were ever booked
+        const appointments = await prisma.appointment.count({
+            where: { serviceId: service.id }
+        });
+
+        if (appointments > 0) {
+            return res.status(409).json({ error: 'Service has appointments and cannot be deleted' });
+        }
+
+        await prisma.service.delete({
+            where: { id: service.id }
+        });
+
+        res.json({ message: 'Service deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting service:', error);
+        res.status(500).json({ error: 'Internal server error during service deletion' });
+    }
+};
+
+export const reorderServices = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { ids } = req.body;
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId },
+            include: { services: { select: { id: true } } }
+        });
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const validationError = validateReorder(ids, clinicSetting.services.map((service) => service.id));
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await prisma.$transaction(
+            (ids as string[]).map((id, index) =>
+                prisma.service.update({
+                    where: { id },
+                    data: { sortOrder: index }
+                })
+            )
+        );
+
+        res.json({ message: 'Services reordered successfully' });
+    } catch (error) {
+        console.error('Error reordering services:', error);
+        res.status(500).json({ error: 'Internal server error during service reordering' });
+    }
+};
+
+export const createKeyword = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { keyword, responseEn, responseAr, synonyms, matchMode } = req.body;
+
+        const validationError = validateKeyword(req.body, false)
+            || validateKeywordTerms(matchMode ?? 'contains', [keyword, ...(synonyms || [])]);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const clinicSetting = await findClinicSetting(userId);
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        // New keywords are checked after the existing ones
+        const count = await prisma.customKeyword.count({
+            where: { clinicSettingId: clinicSetting.id }
+        });
+
+        const customKeyword = await prisma.customKeyword.create({
+            data: {
+                keyword: keyword.trim(),
+                responseEn,
+                responseAr,
+                ...keywordRuleData(req.body),
+                sortOrder: count,
+                clinicSettingId: clinicSetting.id
+            }
+        });
+
+        res.status(201).json({
+            message: 'Keyword created successfully',
+            keyword: customKeyword
+        });
+    } catch (error) {
+        console.error('Error creating keyword:', error);
+        res.status(500).json({ error: 'Internal server error during keyword creation' });
+    }
+};
+
+export const updateKeyword = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { keywordId } = req.params;
+        const { keyword, responseEn, responseAr, synonyms, matchMode } = req.body;
+
+        const validationError = validateKeyword(req.body, true);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const customKeyword = await prisma.customKeyword.findFirst({
+            where: {
+                id: keywordId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!customKeyword) {
+            return res.status(404).json({ error: 'Keyword not found' });
+        }
+
+        // Patterns are checked against the mode the rule will have after the update
+        const termsError = validateKeywordTerms(
+            matchMode ?? customKeyword.matchMode,
+            [keyword ?? customKeyword.keyword, ...(synonyms ?? customKeyword.synonyms)]
+        );
+        if (termsError) {
+            return res.status(400).json({ error: termsError });
+        }
+
+        const updatedKeyword = await prisma.customKeyword.update({
+            where: { id: customKeyword.id },
+            data: {
+                ...(keyword !== undefined && { keyword: keyword.trim() }),
+                ...(responseEn !== undefined && { responseEn }),
+                ...(responseAr !== undefined && { responseAr }),
+                ...keywordRuleData(req.body),
+            }
+        });
+
+        res.json({
+            message: 'Keyword updated successfully',
+            keyword: updatedKeyword
+        });
+    } catch (error) {
+        console.error('Error updating keyword:', error);
+        res.status(500).json({ error: 'Internal server error during keyword update' });
+    }
+};
+
+// Dry run: which keyword rule a sample message would hit, and the reply it would get
+export const testKeywords = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { message, at } = req.body;
+
+        if (typeof message !== 'string' || !message.trim()) {
+            return res.status(400).json({ error: 'Message is required' });
+        }
+
+        const now = at !== undefined ? new Date(at) : new Date();
+        if (isNaN(now.getTime())) {
+            return res.status(400).json({ error: 'Invalid "at" time' });
+        }
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId },
+            include: { customKeywords: true, user: true }
+        });
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const language = detectLanguage(message) ?? getClinicLanguage(clinicSetting.user.languagePreference);
+        const match = findKeywordRule(clinicSetting.customKeywords, message, now, clinicSetting.timezone);
+
+        // Rules that match the text but are outside their active hours, to explain a surprising miss
+        const inactive = sortKeywordRules(clinicSetting.customKeywords)
+            .filter((rule) => !isRuleActive(rule, now, clinicSetting.timezone))
+            .map((rule) => ({ rule, term: matchRuleTerm(rule, message) }))
+            .filter(({ term }) => term !== null);
+
+        res.json({
+            language,
+            match: match && {
+                id: match.rule.id,
+                keyword: match.rule.keyword,
+                matchedTerm: match.term,
+                matchMode: match.rule.matchMode,
+                priority: match.rule.priority,
+                followUpIntent: match.rule.followUpIntent,
+                response: pickLocalized(match.rule, 'response', language) || null
+            },
+            inactiveMatches: inactive.map(({ rule, term }) => ({
+                id: rule.id,
+                keyword: rule.keyword,
+                matchedTerm: term,
+                activeFrom: rule.activeFrom,
+                activeTo: rule.activeTo,
+                activeDays: rule.activeDays
+            }))
+        });
+    } catch (error) {
+        console.error('Error testing keywords:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const deleteKeyword = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { keywordId } = req.params;
+
+        const customKeyword = await prisma.customKeyword.findFirst({
+            where: {
+                id: keywordId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!customKeyword) {
+            return res.status(404).json({ error: 'Keyword not found' });
+        }
+
+        await prisma.customKeyword.delete({
+            where: { id: customKeyword.id }
+        });
+
+        res.json({ message: 'Keyword deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting keyword:', error);
+        res.status(500).json({ error: 'Internal server error during keyword deletion' });
+    }
+};
+
+export const reorderKeywords = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { ids } = req.body;
+
+        const clinicSetting = await prisma.clinicSetting.findUnique({
+            where: { userId },
+            include: { customKeywords: { select: { id: true } } }
+        });
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const validationError = validateReorder(ids, clinicSetting.customKeywords.map((keyword) => keyword.id));
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await prisma.$transaction(
+            (ids as string[]).map((id, index) =>
+                prisma.customKeyword.update({
+                    where: { id },
+                    data: { sortOrder: index }
+                })
+            )
+        );
+
+        res.json({ message: 'Keywords reordered successfully' });
+    } catch (error) {
+        console.error('Error reordering keywords:', error);
+        res.status(500).json({ error: 'Internal server error during keyword reordering' });
+    }
+};
+
+export const createClosure = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { startDate, endDate, reasonEn, reasonAr } = req.body;
+
+        const validationError = validateClosure(req.body, false);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const clinicSetting = await findClinicSetting(userId);
+        if (!clinicSetting) {
+            return res.status(404).json({ error: 'Clinic settings not found' });
+        }
+
+        const closure = await prisma.clinicClosure.create({
+            data: {
+                startDate: toClosureDate(startDate),
+                endDate: toClosureDate(endDate || startDate),
+                reasonEn,
+                reasonAr,
+                clinicSettingId: clinicSetting.id
+            }
+        });
+
+        res.status(201).json({
+            message: 'Closure created successfully',
+            closure
+        });
+    } catch (error) {
+        console.error('Error creating closure:', error);
+        res.status(500).json({ error: 'Internal server error during closure creation' });
+    }
+};
+
+export const updateClosure = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { closureId } = req.params;
+        const { startDate, endDate, reasonEn, reasonAr } = req.body;
+
+        const validationError = validateClosure(req.body, true);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const closure = await prisma.clinicClosure.findFirst({
+            where: {
+                id: closureId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!closure) {
+            return res.status(404).json({ error: 'Closure not found' });
+        }
+
+        // Check the resulting range when only one end of it changes
+        const start = startDate || closure.startDate.toISOString().slice(0, 10);
+        const end = endDate || closure.endDate.toISOString().slice(0, 10);
+        if (end < start) {
+            return res.status(400).json({ error: 'End date must not be before the start date' });
+        }
+
+        const updatedClosure = await prisma.clinicClosure.update({
+            where: { id: closure.id },
+            data: {
+                startDate: toClosureDate(start),
+                endDate: toClosureDate(end),
+                ...(reasonEn !== undefined && { reasonEn }),
+                ...(reasonAr !== undefined && { reasonAr }),
+            }
+        });
+
+        res.json({
+            message: 'Closure updated successfully',
+            closure: updatedClosure
+        });
+    } catch (error) {
+        console.error('Error updating closure:', error);
+        res.status(500).json({ error: 'Internal server error during closure update' });
+    }
+};
+
+export const deleteClosure = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { closureId } = req.params;
+
+        const closure = await prisma.clinicClosure.findFirst({
+            where: {
+                id: closureId,
+                clinicSetting: { userId }
+            }
+        });
+
+        if (!closure) {
+            return res.status(404).json({ error: 'Closure not found' });
+        }
+
+        await prisma.clinicClosure.delete({
+            where: { id: closure.id }
+        });
+
+        res.json({ message: 'Closure deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting closure:', error);
+        res.status(500).json({ error: 'Internal server error during closure deletion' });
+    }
+};
@@ -0,0 +1,227 @@
+// src/controllers/conversationController.ts
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import handoffService from '../services/handoffService';
+import mediaService from '../services/mediaService';
+import messageService from '../services/messageService';
+import { getMediaExtension, MessageMetadata } from '../utils/inboundMessage';
+import { toOutboundContent, validateOutboundContent } from '../utils/outboundContent';
+import { toJid } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Media types the dashboard may show in the browser. The type comes from the patient's phone, so
+// anything else, e.g. HTML or SVG that could run script, is only offered as a download.
+const INLINE_MEDIA_TYPES = [
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+    'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/amr',
+    'application/pdf'
+];
+
+// Helper function to find a WhatsApp session owned by the authenticated user
+function findUserSession(userId: string, sessionId: string) {
+    return prisma.whatsappSession.findFirst({
+        where: {
+            id: sessionId,
+            userId
+        }
+    });
+}
+
+// Helper function to read the page size from the query string
+function parseLimit(value: unknown, fallback: number): number {
+    const limit = parseInt(value as string, 10);
+    if (isNaN(limit) || limit <= 0) {
+        return fallback;
+    }
+    return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+export const getConversations = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId } = req.params;
+        const limit = parseLimit(req.query.limit, 20);
+        const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+        const needsAttention = req.query.needsAttention === 'true';
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        const conversations = await messageService.listConversations(session.id, { limit, offset, needsAttention });
+
+        res.json(conversations);
+    } catch (error) {
+        console.error('Error getting conversations:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const getConversationMessages = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId, patientNumber } = req.params;
+        const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+        const before = req.query.before ? new Date(req.query.before as string) : undefined;
+
+        if (before && isNaN(before.getTime())) {
+            return res.status(400).json({ error: 'Invalid "before" cursor' });
+        }
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        const thread = await messageService.getTimeline(session.id, patientNumber, { limit, before });
+
+        // Opening the latest page of a conversation counts as reading it
+        if (!before) {
+            await messageService.markConversationRead(session.id, patientNumber);
+        }
+
+        res.json(thread);
+    } catch (error) {
+        console.error('Error getting conversation messages:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const replyToConversation = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId, patientNumber } = req.params;
+
+        // Text by default, or { type: 'image' | 'document' | 'location', ... }
+        const validationError = validateOutboundContent(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        let message;
+        try {
+            message = await messageService.send({ session, to: patientNumber, content: toOutboundContent(req.body) });
+        } catch (error: any) {
+            console.error(`Error sending reply through ${session.provider}:`, error);
+            // WasenderAPI errors carry the upstream body as `details`, axios errors of other providers as `response.data`
+            const details = error.details ?? error.response?.data;
+            return res.status(502).json({ error: details || `Failed to send message through ${session.provider}` });
+        }
+
+        await messageService.markConversationRead(session.id, patientNumber);
+
+        // Staff are talking to the patient, so a handoff should not time out underneath them
+        const handoff = await handoffService.get(session.id, toJid(patientNumber));
+        if (handoff) {
+            await handoffService.keepAlive(session.id, toJid(patientNumber), handoff);
+        }
+
+        res.status(201).json({
+            message: 'Reply sent successfully',
+            reply: message
+        });
+    } catch (error) {
+        console.error('Error replying to conversation:', error);
+        res.status(500).json({ error: 'Internal server error during reply' });
+    }
+};
+
+export const startHandoff = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId, patientNumber } = req.params;
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        const jid = toJid(patientNumber);
+        if (!(await handoffService.get(session.id, jid))) {
+            await handoffService.start(session.id, jid, 'staff');
+        }
+
+        res.json({
+            message: 'Bot paused for this conversation',
+            handoff: await handoffService.get(session.id, jid)
+        });
+    } catch (error) {
+        console.error('Error starting handoff:', error);
+        res.status(500).json({ error: 'Internal server error during handoff' });
+    }
+};
+
+export const releaseHandoff = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId, patientNumber } = req.params;
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        const jid = toJid(patientNumber);
+        if (!(await handoffService.get(session.id, jid))) {
+            return res.status(404).json({ error: 'Conversation is not handed off to staff' });
+        }
+
+        await handoffService.release(session.id, jid);
+
+        res.json({ message: 'Conversation handed back to the bot' });
+    } catch (error) {
+        console.error('Error releasing handoff:', error);
+        res.status(500).json({ error: 'Internal server error during handoff release' });
+    }
+};
+
+// The photo, document, voice note or video of a message, as its original file
+export const getMessageMedia = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId, messageId } = req.params;
+
+        const session = await findUserSession(userId, sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'WhatsApp session not found' });
+        }
+
+        const message = await prisma.message.findFirst({
+            where: {
+                id: messageId,
+                whatsappSessionId: session.id
+            }
+        });
+
+        if (!message?.mediaKey) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const metadata = (message.metadata ?? {}) as MessageMetadata;
+        const data = await mediaService.read(message.mediaKey);
+        const fileName = metadata.fileName || `${message.messageType}-${message.id}.${getMediaExtension(metadata.mimeType)}`;
+
+        const mimeType = metadata.mimeType?.split(';')[0].trim().toLowerCase();
+        const inline = !!mimeType && INLINE_MEDIA_TYPES.includes(mimeType);
+
+        res.setHeader('Content-Type', inline ? metadata.mimeType! : 'application/octet-stream');
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        // File names may be Arabic, which plain header values cannot carry
+        res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+        res.send(data);
+    } catch (error) {
+        console.error('Error getting message media:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
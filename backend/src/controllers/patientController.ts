@@ -0,0 +1,204 @@
+// src/controllers/patientController.ts
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { SUPPORTED_LANGUAGES } from '../i18n';
+import patientService from '../services/patientService';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Helper function to read the page size from the query string
+function parseLimit(value: unknown, fallback: number): number {
+    const limit = parseInt(value as string, 10);
+    if (isNaN(limit) || limit <= 0) {
+        return fallback;
+    }
+    return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+// Helper function to find a patient of the authenticated user's clinic
+function findUserPatient(userId: string, patientId: string) {
+    return prisma.patient.findFirst({
+        where: {
+            id: patientId,
+            userId
+        }
+    });
+}
+
+// Helper function to validate the patient fields staff may edit
+function validatePatient(body: any): string | null {
+    const { name, notes, preferredLanguage, reminderConsent, marketingConsent } = body;
+
+    if ((name != null && typeof name !== 'string') || (notes != null && typeof notes !== 'string')) {
+        return 'Name and notes must be text';
+    }
+
+    if (preferredLanguage != null && !SUPPORTED_LANGUAGES.includes(preferredLanguage)) {
+        return `Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`;
+    }
+
+    if ((reminderConsent !== undefined && typeof reminderConsent !== 'boolean')
+        || (marketingConsent !== undefined && typeof marketingConsent !== 'boolean')) {
+        return 'Consent flags must be true or false';
+    }
+
+    return null;
+}
+
+export const getPatients = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const limit = parseLimit(req.query.limit, 20);
+        const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+        const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+
+        const result = await patientService.list(userId, { search, limit, offset });
+
+        res.json(result);
+    } catch (error) {
+        console.error('Error getting patients:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const getPatient = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { patientId } = req.params;
+
+        const patient = await prisma.patient.findFirst({
+            where: {
+                id: patientId,
+                userId
+            },
+            include: {
+                appointments: {
+                    include: { service: true },
+                    orderBy: { appointmentDate: 'desc' }
+                },
+                _count: { select: { messages: true } }
+            }
+        });
+
+        if (!patient) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        res.json(patient);
+    } catch (error) {
+        console.error('Error getting patient:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+// A patient's messages across all of the clinic's WhatsApp sessions, oldest first. Pass the
+// timestamp of the oldest message received as `before` to load the previous page.
+export const getPatientMessages = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { patientId } = req.params;
+        const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+        const before = req.query.before ? new Date(req.query.before as string) : undefined;
+
+        if (before && isNaN(before.getTime())) {
+            return res.status(400).json({ error: 'Invalid "before" cursor' });
+        }
+
+        const patient = await findUserPatient(userId, patientId);
+        if (!patient) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        const messages = await prisma.message.findMany({
+            where: {
+                patientId: patient.id,
+                ...(before && { timestamp: { lt: before } }),
+            },
+            orderBy: { timestamp: 'desc' },
+            take: limit + 1
+        });
+
+        const hasMore = messages.length > limit;
+        const page = messages.slice(0, limit).reverse();
+
+        res.json({
+            messages: page,
+            nextBefore: hasMore && page.length > 0 ? page[0].timestamp.toISOString() : null
+        });
+    } catch (error) {
+        console.error('Error getting patient messages:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const updatePatient = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { patientId } = req.params;
+        const { name, notes, preferredLanguage, reminderConsent, marketingConsent } = req.body;
+
+        const validationError = validatePatient(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const patient = await findUserPatient(userId, patientId);
+        if (!patient) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        const updatedPatient = await prisma.patient.update({
+            where: { id: patient.id },
+            data: {
+                ...(name !== undefined && { name: name?.trim() || null }),
+                ...(notes !== undefined && { notes }),
+                ...(preferredLanguage !== undefined && { preferredLanguage, languageExplicit: preferredLanguage !== null }),
+                ...(reminderConsent !== undefined && { reminderConsent }),
+                ...(marketingConsent !== undefined && { marketingConsent }),
+            }
+        });
+
+        res.json({
+            message: 'Patient updated successfully',
+            patient: updatedPatient
+        });
+    } catch (error) {
+        console.error('Error updating patient:', error);
+        res.status(500).json({ error: 'Internal server error during patient update' });
+    }
+};
+
+// Merge the patient given as `sourceId` into this one, e.g. when a patient wrote from a second number
+export const mergePatients = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { patientId } = req.params;
+        const { sourceId } = req.body;
+
+        if (typeof sourceId !== 'string' || !sourceId) {
+            return res.status(400).json({ error: 'The id of the patient to merge is required' });
+        }
+
+        if (sourceId === patientId) {
+            return res.status(400).json({ error: 'Cannot merge a patient into itself' });
+        }
+
+        const patient = await patientService.merge(userId, patientId, sourceId);
+
+        if (!patient) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        res.json({
+            message: 'Patients merged successfully',
+            patient
+        });
+    } catch (error) {
+        console.error('Error merging patients:', error);
+        res.status(500).json({ error: 'Internal server error during patient merge' });
+    }
+};
@@ -1,77 +1,67 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import wasenderService from '../services/wasenderService';
-
-const prisma = new PrismaClient();
+import { findMessagingProvider, getDefaultProviderName, getMessagingProvider } from '../services/messagingProvider';
+import { hashWebhookSecret } from '../utils/webhookSecurity';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+// Helper function to pick the fields of a session that may be sent to the client.
+// The API key and webhook secret never leave the server.
+function serializeSession(session: { id: string; provider: string; sessionId: string; phoneNumber: string; status: string; createdAt: Date; updatedAt: Date }) {
+    return {
+        id: session.id,
+        provider: session.provider,
+        sessionId: session.sessionId,
+        phoneNumber: session.phoneNumber,
+        status: session.status,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt
+    };
+}
 
 export const createSession = async (req: Request, res: Response) => {
     try {
         const userId = (req as any).userId; // From auth middleware
-        const { 
-            name, 
-            phone_number, 
-            account_protection, 
-            log_messages, 
-            webhook_url, 
-            webhook_enabled,
-            webhook_events,
-            read_incoming_messages, 
-            auto_reject_calls} = req.body;
+        const { name, phone_number, provider: providerName = getDefaultProviderName() } = req.body;
 
         if (!name || !phone_number) {
             return res.status(400).json({ error: 'Session name and phone number are required' });
         }
 
-        // Default values for required boolean fields
-        const defaultAccountProtection = account_protection ?? true;
-        const defaultLogMessages = log_messages ?? true;
-
-        // Prepare the payload for WasenderAPI
-        const payload = {
-            name,
-            phone_number,
-            account_protection: defaultAccountProtection,
-            log_messages: defaultLogMessages,
-            ...(webhook_url && { webhook_url }),
-            ...(webhook_enabled !== undefined && { webhook_enabled }),
-            ...(webhook_events && { webhook_events }),
-            ...(read_incoming_messages !== undefined && { read_incoming_messages }),
-            ...(auto_reject_calls !== undefined && { auto_reject_calls }),
-        };
-
-        // Create session with WasenderAPI
-        const wasenderResponse = await wasenderService.createSession(process.env.ACCESS_TOKEN_API, payload);
-
-        if (!wasenderResponse || !wasenderResponse.success || !wasenderResponse.data) {
-            return res.status(500).json({ error: 'Failed to create WhatsApp session with WasenderAPI' });
+        const provider = findMessagingProvider(providerName);
+        if (!provider) {
+            return res.status(400).json({ error: 'Unknown WhatsApp provider' });
         }
 
-        const { id: sessionId, api_key, webhook_secret, status: sessionStatus } = wasenderResponse.data;
+        // Create the session with the provider; the rest of the body holds its own settings
+        const created = await provider.createSession({ name, phoneNumber: phone_number, settings: req.body });
+
+        if (!created) {
+            return res.status(500).json({ error: 'Failed to create WhatsApp session with the provider' });
+        }
 
         // Store session details in our database
         const whatsappSession = await prisma.whatsappSession.create({
             data: {
                 userId,
-                sessionId: sessionId.toString(), // Convert to string to match Prisma schema
-                apiKey: api_key,
-                webhookSecret: webhook_secret,
+                provider: provider.name,
+                sessionId: created.sessionId,
+                apiKey: created.apiKey,
+                webhookSecret: created.webhookSecret,
+                webhookSecretHash: hashWebhookSecret(created.webhookSecret),
                 phoneNumber: phone_number,
-                status: sessionStatus || 'pending', // Use the status from WasenderAPI or default
+                status: created.status,
             }
         });
 
         res.status(201).json({
             message: 'WhatsApp session created successfully',
-            session: {
-                id: whatsappSession.id,
-                sessionId: whatsappSession.sessionId,
-                phoneNumber: whatsappSession.phoneNumber,
-                status: whatsappSession.status,
-            }
+            session: serializeSession(whatsappSession)
         });
     } catch (error: any) {
         console.error('Error creating WhatsApp session:', error);
-        res.status(500).json({ error: error.response?.data || 'Internal server error during session creation' });
+        res.status(500).json({ error: error.details || 'Internal server error during session creation' });
     }
 };
 
@@ -80,13 +70,6 @@ export const getSession = async (req: Request, res: Response) => {
         const userId = (req as any).userId;
         const { sessionId } = req.params;
 
-        // Convert sessionId to number for WasenderAPI
-        const sessionNumber = parseInt(sessionId, 10);
-
-        if (isNaN(sessionNumber)) {
-            return res.status(400).json({ error: 'Invalid session ID' });
-        }
-
         // Get the session from our database to get the API key
         const dbSession = await prisma.whatsappSession.findFirst({
             where: {
@@ -99,20 +82,12 @@ export const getSession = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'WhatsApp session not found in database' });
         }
 
-        // Get session status from WasenderAPI
-        const sessionStatus = await wasenderService.getSessionStatus(dbSession.apiKey, sessionNumber);
-
-        if (!sessionStatus) {
-            return res.status(500).json({ error: 'Failed to get session status from WasenderAPI' });
-        }
+        // Get session status from the provider
+        const sessionStatus = await getMessagingProvider(dbSession.provider).getSessionStatus(dbSession);
 
         res.json({
-            id: dbSession.id,
-            sessionId: dbSession.sessionId,
-            phoneNumber: dbSession.phoneNumber,
-            status: sessionStatus.status || dbSession.status,
-            createdAt: dbSession.createdAt,
-            updatedAt: dbSession.updatedAt
+            ...serializeSession(dbSession),
+            status: sessionStatus || dbSession.status
         });
     } catch (error) {
         console.error('Error getting WhatsApp session:', error);
@@ -130,6 +105,7 @@ export const getAllSessions = async (req: Request, res: Response) => {
             },
             select: {
                 id: true,
+                provider: true,
                 sessionId: true,
                 phoneNumber: true,
                 status: true,
@@ -161,9 +137,12 @@ export const deleteSession = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'WhatsApp session not found' });
         }
 
-        // Disconnect from WasenderAPI (optional, depending on their API)
-        // For now, we'll just delete from our database
-        // If needed, implement a proper logout/disconnect call
+        // Log the number out with the provider; the session is deleted even if that fails
+        try {
+            await getMessagingProvider(session.provider).disconnectSession(session);
+        } catch (error) {
+            console.error('Error disconnecting WhatsApp session before deletion:', error);
+        }
 
         // Delete from our database
         await prisma.whatsappSession.delete({
@@ -196,17 +175,11 @@ export const connectSession = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'WhatsApp session not found in database' });
         }
 
-        // Convert sessionId to number for WasenderAPI
-        const sessionNumber = parseInt(dbSession.sessionId, 10);
-        if (isNaN(sessionNumber)) {
-            return res.status(400).json({ error: 'Invalid session ID' });
-        }
-
-        // Connect the session with WasenderAPI
-        const connectResponse = await wasenderService.connectSession(dbSession.apiKey, { whatsappSessionId: sessionNumber });
+        // Connect the session with the provider
+        const status = await getMessagingProvider(dbSession.provider).connectSession(dbSession);
 
-        if (!connectResponse || !connectResponse.success) {
-            return res.status(500).json({ error: 'Failed to connect WhatsApp session with WasenderAPI' });
+        if (!status) {
+            return res.status(500).json({ error: 'Failed to connect WhatsApp session with the provider' });
         }
 
         // Update the session status in our database
@@ -215,13 +188,13 @@ export const connectSession = async (req: Request, res: Response) => {
                 id: sessionId
             },
             data: {
-                status: connectResponse.data.status || 'connecting'
+                status
             }
         });
 
         res.json({
             message: 'WhatsApp session connection initiated',
-            session: updatedSession
+            session: serializeSession(updatedSession)
         });
     } catch (error) {
         console.error('Error connecting WhatsApp session:', error);
@@ -246,25 +219,75 @@ export const getQRCode = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'WhatsApp session not found in database' });
         }
 
-        // Convert sessionId to number for WasenderAPI
-        const sessionNumber = parseInt(dbSession.sessionId, 10);
-        if (isNaN(sessionNumber)) {
-            return res.status(400).json({ error: 'Invalid session ID' });
+        const provider = getMessagingProvider(dbSession.provider);
+        if (!provider.getQRCode) {
+            return res.status(400).json({ error: 'This WhatsApp provider does not link numbers with a QR code' });
         }
 
-        // Get QR code from WasenderAPI
-        const qrResponse = await wasenderService.getQRCode(dbSession.apiKey, { whatsappSessionId: sessionNumber });
+        // Get QR code from the provider
+        const qrCode = await provider.getQRCode(dbSession);
 
-        if (!qrResponse || !qrResponse.success || !qrResponse.data) {
-            return res.status(500).json({ error: 'Failed to get QR code from WasenderAPI' });
+        if (!qrCode) {
+            return res.status(500).json({ error: 'Failed to get QR code from the provider' });
         }
 
         res.json({
             message: 'QR code retrieved successfully',
-            qrCode: qrResponse.data.qrCode
+            qrCode
         });
     } catch (error) {
         console.error('Error getting QR code:', error);
         res.status(500).json({ error: 'Internal server error during QR code retrieval' });
     }
-};
\ No newline at end of file
+};
+
+export const rotateCredentials = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { sessionId } = req.params;
+
+        const dbSession = await prisma.whatsappSession.findFirst({
+            where: {
+                id: sessionId,
+                userId
+            }
+        });
+
+        if (!dbSession) {
+            return res.status(404).json({ error: 'WhatsApp session not found in database' });
+        }
+
+        const provider = getMessagingProvider(dbSession.provider);
+        if (!provider.rotateCredentials) {
+            return res.status(400).json({ error: 'This WhatsApp provider does not issue credentials to rotate' });
+        }
+
+        const credentials = await provider.rotateCredentials(dbSession);
+
+        if (!credentials) {
+            return res.status(500).json({ error: 'Failed to regenerate API key with the provider' });
+        }
+
+        const { apiKey, webhookSecret } = credentials;
+
+        // Swap the credentials in a single write, so webhooks and sends never see a mix of old and new
+        const updatedSession = await prisma.whatsappSession.update({
+            where: {
+                id: dbSession.id
+            },
+            data: {
+                apiKey,
+                webhookSecret,
+                webhookSecretHash: hashWebhookSecret(webhookSecret)
+            }
+        });
+
+        res.json({
+            message: 'WhatsApp session credentials rotated successfully',
+            session: serializeSession(updatedSession)
+        });
+    } catch (error: any) {
+        console.error('Error rotating WhatsApp session credentials:', error);
+        res.status(500).json({ error: error.details || 'Internal server error during credential rotation' });
+    }
+};
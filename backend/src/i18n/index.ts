@@ -0,0 +1,73 @@
+// src/i18n/index.ts
+import { BotContext, Language } from '../types/bot';
+import en, { MessageKey } from './locales/en';
+import ar from './locales/ar';
+
+export type { MessageKey };
+export type Catalog = Record<MessageKey, string>;
+
+// Per-clinic replacements for catalog messages, e.g. { "ar": { "handoff.started": "..." } }
+export type MessageOverrides = Partial<Record<Language, Partial<Catalog>>>;
+
+type MessageParams = Record<string, string | number>;
+
+// To add a language, add it to the Language type, then add its catalog and locale tag here
+export const CATALOGS: Record<Language, Catalog> = { en, ar };
+
+// BCP 47 tags for formatting dates in each language
+export const LOCALE_TAGS: Record<Language, string> = { en: 'en-US', ar: 'ar' };
+
+export const SUPPORTED_LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+// A catalog message in the given language with its placeholders filled in. The clinic's override
+// wins, then the language's catalog, then English.
+export function translate(key: MessageKey, language: Language, params: MessageParams = {}, overrides?: MessageOverrides | null): string {
+    const template = overrides?.[language]?.[key] ?? CATALOGS[language]?.[key] ?? CATALOGS.en[key];
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+        params[name] !== undefined ? String(params[name]) : placeholder
+    );
+}
+
+// A bot reply in the patient's language, using the clinic's overrides
+export function botText(context: BotContext, key: MessageKey, params: MessageParams = {}): string {
+    return translate(key, context.language, params, context.clinicSettings?.messageOverrides);
+}
+
+// A clinic-entered value in the patient's language, e.g. pickLocalized(service, 'name', 'ar') reads
+// service.nameAr and falls back to service.nameEn. Without the fallback, callers can use a catalog
+// default instead of answering in the wrong language.
+export function pickLocalized(record: any, field: string, language: Language, { fallbackToEnglish = true } = {}): string | undefined {
+    const suffix = language.charAt(0).toUpperCase() + language.slice(1);
+    return record?.[`${field}${suffix}`] || (fallbackToEnglish ? record?.[`${field}En`] : undefined) || undefined;
+}
+
+// Validate per-clinic message overrides. Returns an error message, or null if the value is valid.
+export function validateMessageOverrides(value: unknown): string | null {
+    if (value === null) {
+        return null;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        return 'Message overrides must be an object keyed by language';
+    }
+
+    for (const [language, messages] of Object.entries(value as Record<string, unknown>)) {
+        if (!SUPPORTED_LANGUAGES.includes(language as Language)) {
+            return `Unsupported language "${language}"; expected one of: ${SUPPORTED_LANGUAGES.join(', ')}`;
+        }
+        if (!messages || typeof messages !== 'object' || Array.isArray(messages)) {
+            return `Overrides for "${language}" must be an object keyed by message`;
+        }
+
+        for (const [key, text] of Object.entries(messages as Record<string, unknown>)) {
+            // Own keys only, so "toString" or "__proto__" are not taken for messages
+            if (!Object.prototype.hasOwnProperty.call(CATALOGS.en, key)) {
+                return `Unknown message key "${key}"`;
+            }
+            if (typeof text !== 'string' || !text.trim()) {
+                return `Override for "${key}" in "${language}" must be a non-empty string`;
+            }
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,80 @@
+// src/i18n/locales/ar.ts
+import { MessageKey } from './en';
+
+const ar: Record<MessageKey, string> = {
+    'greeting.default': 'مرحبا! مرحبا بكم في عيادتنا للأسنان. كيف يمكننا مساعدتكم اليوم؟',
+
+    'menu.prompt': 'الرجاء اختيار أحد الخيارات التالية بإرسال رقمه:',
+    'menu.location': '📍 الموقع',
+    'menu.hours': '🕒 ساعات العمل',
+    'menu.services': '💰 الأسعار والخدمات',
+    'menu.booking': '📅 حجز موعد',
+    'menu.contact': '📞 الاتصال بنا',
+    'menu.human': '💬 التحدث إلى شخص',
+    'menu.backToMain': '{number}. القائمة الرئيسية',
+    'menu.invalidChoice': 'يرجى اختيار رقم من القائمة، أو {zero} للعودة إلى القائمة الرئيسية.',
+
+    'fallback.notUnderstood': 'عذراً، لم أفهم طلبك. يرجى استخدام القائمة أدناه للحصول على المساعدة.',
+    'language.changed': 'تم تغيير اللغة إلى العربية.',
+
+    'location.address': '📍 عنواننا: {address}',
+    'location.unavailable': 'معلومات عنوان العيادة غير متوفرة.',
+    'contact.phone': 'يمكنكم الاتصال بنا على: {phone}',
+    'contact.unavailable': 'رقم هاتف العيادة غير متوفر حالياً.',
+
+    'hours.title': 'ساعات العمل:',
+    'hours.unavailable': 'ساعات العمل غير متوفرة حالياً.',
+    'hours.openNow': 'العيادة مفتوحة الآن حتى {time}.',
+    'hours.closedNow': 'العيادة مغلقة الآن. نفتح مجدداً {when}.',
+    'hours.closed': 'العيادة مغلقة الآن.',
+    'hours.closures': 'أيام الإغلاق القادمة:',
+    'day.sunday': 'الأحد',
+    'day.monday': 'الإثنين',
+    'day.tuesday': 'الثلاثاء',
+    'day.wednesday': 'الأربعاء',
+    'day.thursday': 'الخميس',
+    'day.friday': 'الجمعة',
+    'day.saturday': 'السبت',
+
+    'services.title': 'قائمة الخدمات:',
+    'services.unavailable': 'قائمة الخدمات غير متوفرة حالياً.',
+    'services.item': '{number}. {name}: {price} {currency} ({duration} دقيقة)',
+    'services.moreDetails': 'أرسل رقم الخدمة لمزيد من التفاصيل.',
+    'services.duration': '⏱ {duration} دقيقة',
+    'services.bookThis': '{number}. احجز هذه الخدمة',
+
+    'booking.noServices': 'عذراً، لا توجد خدمات متاحة للحجز حالياً. يرجى الاتصال بالعيادة.',
+    'booking.selectService': 'ما هي الخدمة التي تريد حجزها؟ أرسل رقم الخدمة:',
+    'booking.serviceItem': '{number}. {name} ({duration} دقيقة)',
+    'booking.cancelHint': 'أرسل "إلغاء" للخروج.',
+    'booking.cancelled': 'تم إلغاء الحجز.',
+    'booking.invalidService': 'يرجى إرسال رقم الخدمة من القائمة.',
+    'booking.noSlots': 'عذراً، لا توجد مواعيد متاحة خلال الأيام القادمة. يرجى الاتصال بالعيادة.',
+    'booking.availableTimes': 'المواعيد المتاحة:',
+    'booking.pickTime': 'أرسل رقم الموعد المناسب.',
+    'booking.invalidSlot': 'يرجى إرسال رقم الموعد من القائمة.',
+    'booking.askName': 'ما هو اسم المريض الكامل؟',
+    'booking.invalidName': 'يرجى إرسال الاسم الكامل.',
+    'booking.confirm': 'تأكيد الحجز:\n{service}\n{when}\n{name}\n\nأرسل "نعم" للتأكيد أو "إلغاء" للإلغاء.',
+    'booking.confirmHint': 'أرسل "نعم" للتأكيد أو "إلغاء" للإلغاء.',
+    'booking.slotTaken': 'عذراً، تم حجز هذا الموعد للتو. أرسل "حجز" لاختيار موعد آخر.',
+    'booking.booked': 'تم حجز موعدك في {when}. نراك قريباً!',
+
+    'reminder.text': '⏰ تذكير: موعدك لـ {service} في {when}.',
+    'reminder.confirmOption': '{number}. تأكيد الموعد',
+    'reminder.cancelOption': '{number}. إلغاء الموعد',
+    'reminder.confirmed': '✅ شكراً لك، تم تأكيد موعدك. نراك قريباً!',
+    'reminder.cancelled': 'تم إلغاء موعدك. أرسل "حجز" لاختيار موعد آخر.',
+    'reminder.inactive': 'هذا الموعد لم يعد قائماً. يرجى الاتصال بالعيادة للمساعدة.',
+
+    'media.image': 'شكراً، وصلتنا صورتك. سيطّلع عليها فريقنا ويرد عليك هنا.',
+    'media.video': 'شكراً، وصلنا الفيديو. سيطّلع عليه فريقنا ويرد عليك هنا.',
+    'media.document': 'شكراً، وصلنا المستند. سيراجعه فريقنا ويرد عليك هنا.',
+    'media.audio': 'شكراً على رسالتك الصوتية. سيستمع إليها فريقنا ويرد عليك هنا. للحصول على رد أسرع يمكنك أيضاً كتابة سؤالك.',
+    'media.location': 'شكراً لمشاركة موقعك. أرسل "عنوان" لمعرفة عنوان العيادة.',
+
+    'handoff.started': 'سيتواصل معك أحد موظفينا قريباً.',
+    'handoff.staffAlert': '🔔 طلب {patient} التحدث إلى شخص. تم إيقاف الرد الآلي لهذه المحادثة حتى تعيدها إليه.',
+};
+
+export default ar;
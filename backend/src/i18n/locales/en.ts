@@ -0,0 +1,83 @@
+// src/i18n/locales/en.ts
+// English bot replies. This catalog defines the message keys; every other locale must provide all of them.
+// Placeholders in braces, e.g. {name}, are filled in by translate().
+
+const en = {
+    'greeting.default': 'Hello! Welcome to our dental clinic. How can we help you today?',
+
+    'menu.prompt': 'Please choose one of the following options by sending its number:',
+    'menu.location': '📍 Location',
+    'menu.hours': '🕒 Working Hours',
+    'menu.services': '💰 Prices & Services',
+    'menu.booking': '📅 Book Appointment',
+    'menu.contact': '📞 Call Us',
+    'menu.human': '💬 Talk to Human',
+    'menu.backToMain': '{number}. Main menu',
+    'menu.invalidChoice': 'Please reply with a number from the list, or {zero} for the main menu.',
+
+    'fallback.notUnderstood': 'Sorry, I didn\'t understand your request. Please use the menu below for assistance.',
+    'language.changed': 'Language changed to English.',
+
+    'location.address': '📍 Our address: {address}',
+    'location.unavailable': 'Clinic address information is not available.',
+    'contact.phone': 'You can call us at: {phone}',
+    'contact.unavailable': 'Our phone number is not available right now.',
+
+    'hours.title': 'Working Hours:',
+    'hours.unavailable': 'Working hours are not currently available.',
+    'hours.openNow': 'We\'re open now until {time}.',
+    'hours.closedNow': 'We\'re closed right now. We open again {when}.',
+    'hours.closed': 'We\'re closed right now.',
+    'hours.closures': 'Upcoming closures:',
+    'day.sunday': 'Sunday',
+    'day.monday': 'Monday',
+    'day.tuesday': 'Tuesday',
+    'day.wednesday': 'Wednesday',
+    'day.thursday': 'Thursday',
+    'day.friday': 'Friday',
+    'day.saturday': 'Saturday',
+
+    'services.title': 'Our Services:',
+    'services.unavailable': 'Service list is not currently available.',
+    'services.item': '{number}. {name}: {price} {currency} ({duration} mins)',
+    'services.moreDetails': 'Send a service number for more details.',
+    'services.duration': '⏱ {duration} mins',
+    'services.bookThis': '{number}. Book this service',
+
+    'booking.noServices': 'Sorry, there are no services available for booking right now. Please call the clinic.',
+    'booking.selectService': 'Which service would you like to book? Reply with its number:',
+    'booking.serviceItem': '{number}. {name} ({duration} mins)',
+    'booking.cancelHint': 'Send "cancel" to stop.',
+    'booking.cancelled': 'Booking cancelled.',
+    'booking.invalidService': 'Please reply with the number of a service from the list.',
+    'booking.noSlots': 'Sorry, there are no free slots in the coming days. Please call the clinic.',
+    'booking.availableTimes': 'Available times:',
+    'booking.pickTime': 'Reply with the number of the time that suits you.',
+    'booking.invalidSlot': 'Please reply with the number of a time from the list.',
+    'booking.askName': 'What is the patient\'s full name?',
+    'booking.invalidName': 'Please send the full name.',
+    'booking.confirm': 'Please confirm your booking:\n{service}\n{when}\n{name}\n\nReply "yes" to confirm or "cancel" to stop.',
+    'booking.confirmHint': 'Reply "yes" to confirm or "cancel" to stop.',
+    'booking.slotTaken': 'Sorry, that time was just taken. Send "book" to pick another time.',
+    'booking.booked': 'Your appointment is booked for {when}. See you soon!',
+
+    'reminder.text': '⏰ Reminder: your {service} appointment is on {when}.',
+    'reminder.confirmOption': '{number}. Confirm',
+    'reminder.cancelOption': '{number}. Cancel',
+    'reminder.confirmed': '✅ Thank you, your appointment is confirmed. See you soon!',
+    'reminder.cancelled': 'Your appointment has been cancelled. Send "book" to choose another time.',
+    'reminder.inactive': 'This appointment is no longer active. Please contact the clinic for help.',
+
+    'media.image': 'Thanks, we received your photo. Our team will take a look and get back to you here.',
+    'media.video': 'Thanks, we received your video. Our team will take a look and get back to you here.',
+    'media.document': 'Thanks, we received your document. Our team will review it and get back to you here.',
+    'media.audio': 'Thanks for your voice message. Our team will listen to it and reply here. For a faster answer, you can also type your question.',
+    'media.location': 'Thanks for sharing your location. Send "location" for the clinic\'s address.',
+
+    'handoff.started': 'A human agent will contact you shortly.',
+    'handoff.staffAlert': '🔔 {patient} asked to talk to a human. The bot is paused for this conversation until you hand it back.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,25 @@
+// src/routes/appointmentRoutes.ts
+import { Router } from 'express';
+import {
+    getAppointments,
+    getAppointment,
+    createAppointment,
+    rescheduleAppointment,
+    cancelAppointment,
+    completeAppointment
+} from '../controllers/appointmentController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getAppointments);
+router.post('/', createAppointment);
+router.get('/:appointmentId', getAppointment);
+router.patch('/:appointmentId/reschedule', rescheduleAppointment);
+router.patch('/:appointmentId/cancel', cancelAppointment);
+router.patch('/:appointmentId/complete', completeAppointment);
+
+export default router;
@@ -0,0 +1,13 @@
+// src/routes/botRoutes.ts
+import { Router } from 'express';
+import { simulateMessage } from '../controllers/botController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.post('/simulate', simulateMessage);
+
+export default router;
@@ -0,0 +1,46 @@
+// src/routes/clinicSettingsRoutes.ts
+import { Router } from 'express';
+import {
+    getClinicSettings,
+    updateClinicSettings,
+    getBotMessages,
+    createService,
+    updateService,
+    deleteService,
+    reorderServices,
+    createKeyword,
+    updateKeyword,
+    deleteKeyword,
+    testKeywords,
+    reorderKeywords,
+    createClosure,
+    updateClosure,
+    deleteClosure
+} from '../controllers/clinicSettingsController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getClinicSettings);
+router.put('/', updateClinicSettings);
+router.get('/messages', getBotMessages);
+
+router.post('/services', createService);
+router.put('/services/reorder', reorderServices);
+router.put('/services/:serviceId', updateService);
+router.delete('/services/:serviceId', deleteService);
+
+router.post('/keywords', createKeyword);
+router.put('/keywords/reorder', reorderKeywords);
+router.post('/keywords/test', testKeywords);
+router.put('/keywords/:keywordId', updateKeyword);
+router.delete('/keywords/:keywordId', deleteKeyword);
+
+router.post('/closures', createClosure);
+router.put('/closures/:closureId', updateClosure);
+router.delete('/closures/:closureId', deleteClosure);
+
+export default router;
@@ -0,0 +1,23 @@
+// src/routes/patientRoutes.ts
+import { Router } from 'express';
+import {
+    getPatients,
+    getPatient,
+    getPatientMessages,
+    updatePatient,
+    mergePatients
+} from '../controllers/patientController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getPatients);
+router.get('/:patientId', getPatient);
+router.get('/:patientId/messages', getPatientMessages);
+router.put('/:patientId', updatePatient);
+router.post('/:patientId/merge', mergePatients);
+
+export default router;
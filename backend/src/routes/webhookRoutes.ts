@@ -0,0 +1,23 @@
+// src/routes/webhookRoutes.ts
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { handleWebhook, verifyWebhookSubscription } from '../controllers/webhookController';
+
+const router = Router();
+
+// Webhooks are public (no JWT): each request is authenticated by its signature in handleWebhook,
+// and rate-limited per IP so forged traffic cannot flood the bot
+router.use(rateLimit({
+    windowMs: 60 * 1000,
+    limit: parseInt(process.env.WEBHOOK_RATE_LIMIT_PER_MINUTE || '300', 10),
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    message: { error: 'Too many webhook requests' }
+}));
+
+// Webhooks of each provider, e.g. /wasender or /cloud/<session ID>; see messagingProvider
+router.get('/:provider/:whatsappSessionId', verifyWebhookSubscription);
+router.post('/:provider', handleWebhook);
+router.post('/:provider/:whatsappSessionId', handleWebhook);
+
+export default router;
@@ -6,8 +6,17 @@ import {
     getAllSessions, 
     deleteSession,
     connectSession,
-    getQRCode
+    getQRCode,
+    rotateCredentials
 } from '../controllers/whatsappSessionController';
+import {
+    getConversations,
+    getConversationMessages,
+    replyToConversation,
+    startHandoff,
+    releaseHandoff,
+    getMessageMedia
+} from '../controllers/conversationController';
 import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
@@ -21,5 +30,12 @@ router.get('/:sessionId', getSession);
 router.delete('/:sessionId', deleteSession);
 router.post('/:sessionId/connect', connectSession);
 router.get('/:sessionId/qrcode', getQRCode);
+router.post('/:sessionId/rotate-credentials', rotateCredentials);
+router.get('/:sessionId/conversations', getConversations);
+router.get('/:sessionId/conversations/:patientNumber/messages', getConversationMessages);
+router.post('/:sessionId/conversations/:patientNumber/messages', replyToConversation);
+router.post('/:sessionId/conversations/:patientNumber/handoff', startHandoff);
+router.delete('/:sessionId/conversations/:patientNumber/handoff', releaseHandoff);
+router.get('/:sessionId/messages/:messageId/media', getMessageMedia);
 
 export default router;
\ No newline at end of file
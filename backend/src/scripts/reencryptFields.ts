@@ -0,0 +1,178 @@
+// src/scripts/reencryptFields.ts
+// Encrypts message contents, patient details and WasenderAPI credentials written before field
+// encryption was enabled, and moves values encrypted with an older key to the active one.
+// Patients' phone number hashes are filled in or recomputed with FIELD_BLIND_INDEX_KEY.
+// Safe to run repeatedly and while the app is running:
+//   FIELD_ENCRYPTION_KEYS=... npm run reencrypt
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { blindIndex, decryptField, encryptField, needsReencryption } from '../utils/fieldEncryption';
+
+dotenv.config();
+
+// Raw client: this script reads and writes the stored values, not the decrypted ones
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+// Helper function to re-encrypt one field value, or return null if it already uses the active key
+function reencrypt(value: string): string | null {
+    return needsReencryption(value) ? encryptField(decryptField(value)) : null;
+}
+
+export async function reencryptMessages(): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+        const messages = await prisma.message.findMany({
+            select: { id: true, content: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+        if (messages.length === 0) {
+            return updated;
+        }
+
+        for (const message of messages) {
+            const content = reencrypt(message.content);
+            if (content) {
+                await prisma.message.update({
+                    where: { id: message.id },
+                    data: { content, encryptedAtRest: true }
+                });
+                updated++;
+            }
+        }
+        cursor = messages[messages.length - 1].id;
+    }
+}
+
+export async function reencryptAppointments(): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+        const appointments = await prisma.appointment.findMany({
+            select: { id: true, patientName: true, patientPhone: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+        if (appointments.length === 0) {
+            return updated;
+        }
+
+        for (const appointment of appointments) {
+            const patientName = reencrypt(appointment.patientName);
+            const patientPhone = reencrypt(appointment.patientPhone);
+            if (patientName || patientPhone) {
+                await prisma.appointment.update({
+                    where: { id: appointment.id },
+                    data: {
+                        ...(patientName && { patientName }),
+                        ...(patientPhone && { patientPhone }),
+                        encryptedAtRest: true
+                    }
+                });
+                updated++;
+            }
+        }
+        cursor = appointments[appointments.length - 1].id;
+    }
+}
+
+// Also fills in the blind indexes of patients' numbers, or recomputes them after FIELD_BLIND_INDEX_KEY changed
+export async function reencryptPatients(): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+        const patients = await prisma.patient.findMany({
+            select: { id: true, phone: true, phoneHash: true, alternatePhones: true, alternatePhoneHashes: true, name: true, whatsappName: true, notes: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+        if (patients.length === 0) {
+            return updated;
+        }
+
+        for (const patient of patients) {
+            const phone = reencrypt(patient.phone);
+            const name = patient.name && reencrypt(patient.name);
+            const whatsappName = patient.whatsappName && reencrypt(patient.whatsappName);
+            const notes = patient.notes && reencrypt(patient.notes);
+            const alternatePhones = patient.alternatePhones.some(needsReencryption)
+                ? patient.alternatePhones.map((value) => reencrypt(value) ?? value)
+                : null;
+
+            const phoneHash = blindIndex(decryptField(patient.phone));
+            const alternatePhoneHashes = patient.alternatePhones.map((value) => blindIndex(decryptField(value)));
+            const rehashed = phoneHash !== patient.phoneHash || alternatePhoneHashes.join() !== patient.alternatePhoneHashes.join();
+
+            if (phone || name || whatsappName || notes || alternatePhones || rehashed) {
+                await prisma.patient.update({
+                    where: { id: patient.id },
+                    data: {
+                        ...(phone && { phone }),
+                        ...(name && { name }),
+                        ...(whatsappName && { whatsappName }),
+                        ...(notes && { notes }),
+                        ...(alternatePhones && { alternatePhones }),
+                        phoneHash,
+                        alternatePhoneHashes,
+                        encryptedAtRest: true
+                    }
+                });
+                updated++;
+            }
+        }
+        cursor = patients[patients.length - 1].id;
+    }
+}
+
+export async function reencryptSessions(): Promise<number> {
+    let updated = 0;
+
+    // One row per connected WhatsApp number, so no batching is needed
+    const sessions = await prisma.whatsappSession.findMany({
+        select: { id: true, apiKey: true, webhookSecret: true }
+    });
+
+    for (const session of sessions) {
+        const apiKey = reencrypt(session.apiKey);
+        const webhookSecret = reencrypt(session.webhookSecret);
+        if (apiKey || webhookSecret) {
+            await prisma.whatsappSession.update({
+                where: { id: session.id },
+                data: {
+                    ...(apiKey && { apiKey }),
+                    ...(webhookSecret && { webhookSecret }),
+                }
+            });
+            updated++;
+        }
+    }
+    return updated;
+}
+
+if (require.main === module) {
+    (async () => {
+        if (!process.env.FIELD_ENCRYPTION_KEYS) {
+            throw new Error('FIELD_ENCRYPTION_KEYS must be set to re-encrypt data');
+        }
+
+        const messages = await reencryptMessages();
+        const appointments = await reencryptAppointments();
+        const patients = await reencryptPatients();
+        const sessions = await reencryptSessions();
+        console.log(`Re-encrypted ${messages} messages, ${appointments} appointments, ${patients} patients and ${sessions} WhatsApp sessions`);
+    })()
+        .catch((error) => {
+            console.error('Error re-encrypting data:', error);
+            process.exitCode = 1;
+        })
+        .finally(() => prisma.$disconnect());
+}
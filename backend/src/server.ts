@@ -5,6 +5,14 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import authRoutes from './routes/authRoutes';
+import appointmentRoutes from './routes/appointmentRoutes';
+import clinicSettingsRoutes from './routes/clinicSettingsRoutes';
+import whatsappSessionRoutes from './routes/whatsappSessionRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import botRoutes from './routes/botRoutes';
+import patientRoutes from './routes/patientRoutes';
+import webhookQueue from './services/webhookQueue';
+import reminderService from './services/reminderService';
 
 dotenv.config();
 
@@ -15,11 +23,25 @@ const PORT = process.env.PORT || 3000;
 app.use(helmet());
 app.use(cors());
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the exact bytes of webhook requests so their signature can be verified
+  verify: (req, res, buf) => {
+    if (req.url?.startsWith('/api/webhooks')) {
+      (req as any).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/appointments', appointmentRoutes);
+app.use('/api/clinic-settings', clinicSettingsRoutes);
+app.use('/api/whatsapp-sessions', whatsappSessionRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/bot', botRoutes);
+app.use('/api/patients', patientRoutes);
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -41,9 +63,15 @@ if (require.main === module) {
     console.log(`Server is running on port ${PORT}`);
   });
   
+  // Process queued webhook events in this process
+  webhookQueue.start();
+  reminderService.start();
+  
   // Graceful shutdown handler
   process.on('SIGTERM', () => {
     console.log('SIGTERM received, shutting down gracefully');
+    webhookQueue.stop();
+    reminderService.stop();
     server.close(() => {
       console.log('Process terminated');
     });
@@ -0,0 +1,353 @@
+// src/services/bookingService.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import conversationStateService, { ConversationState } from './conversationStateService';
+import patientService from './patientService';
+import { botText, LOCALE_TAGS, pickLocalized } from '../i18n';
+import { BotContext, Language } from '../types/bot';
+import { formatMenuNumber, parseMenuNumber } from '../utils/menuNumbers';
+import { Closure, getOpenIntervals } from '../utils/workingHours';
+import { jidToPhone } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+// The client or the transaction bookings read and write appointments through
+type BookingDb = Pick<typeof prisma, 'appointment' | 'appointmentReminder'>;
+
+interface BookedSlot {
+    appointmentDate: Date;
+    duration: number; // in minutes
+}
+
+interface FindSlotsOptions {
+    from?: Date;
+    days?: number; // how many days ahead to search
+    limit?: number; // maximum number of slots to propose
+    closures?: Closure[];
+    timeZone?: string | null; // the clinic's; server time when empty
+}
+
+// Values collected in the 'booking' conversation flow
+interface BookingData {
+    serviceId?: string;
+    slots?: string[]; // ISO dates of the slots proposed to the patient
+    slot?: string; // ISO date of the chosen slot
+    patientName?: string;
+}
+
+export const BOOKING_FLOW = 'booking';
+
+const SLOT_INTERVAL_MINUTES = 30;
+const ACTIVE_APPOINTMENT_STATUSES = ['scheduled', 'confirmed'];
+
+// Bookings that lose a serialization conflict are retried, and then see the appointment that won
+const BOOKING_ATTEMPTS = 3;
+
+const YES_REPLIES = ['yes', 'y', 'ok', 'confirm', 'نعم', 'اكيد', 'أكيد', 'تأكيد'];
+const CANCEL_REPLIES = ['no', 'n', 'cancel', 'stop', 'لا', 'الغاء', 'إلغاء'];
+
+// Whether [start, start + duration) intersects any booked appointment
+function overlapsBooked(start: Date, duration: number, booked: BookedSlot[]): boolean {
+    const slotStart = start.getTime();
+    const slotEnd = slotStart + duration * 60000;
+    return booked.some((appointment) => {
+        const bookedStart = appointment.appointmentDate.getTime();
+        const bookedEnd = bookedStart + appointment.duration * 60000;
+        return slotStart < bookedEnd && slotEnd > bookedStart;
+    });
+}
+
+class BookingService {
+    // Free slots for a service of the given duration within the clinic's opening periods, skipping
+    // closures and anything that overlaps a booked appointment
+    findAvailableSlots(
+        workingHours: unknown,
+        duration: number,
+        booked: BookedSlot[],
+        { from = new Date(), days = 7, limit = 5, closures = [], timeZone }: FindSlotsOptions = {}
+    ): Date[] {
+        const slots: Date[] = [];
+        const intervals = getOpenIntervals({ workingHours, closures, timezone: timeZone }, from, days);
+
+        for (const interval of intervals) {
+            const end = interval.end.getTime();
+            for (let start = interval.start.getTime(); start + duration * 60000 <= end; start += SLOT_INTERVAL_MINUTES * 60000) {
+                if (slots.length >= limit) {
+                    return slots;
+                }
+
+                const slot = new Date(start);
+                if (start > from.getTime() && !overlapsBooked(slot, duration, booked)) {
+                    slots.push(slot);
+                }
+            }
+        }
+
+        return slots;
+    }
+
+    // Appointments of a clinic that still block their time slot
+    async getBookedSlots(
+        userId: string,
+        from: Date,
+        to: Date,
+        excludeAppointmentId?: string,
+        db: BookingDb = prisma
+    ): Promise<BookedSlot[]> {
+        const appointments = await db.appointment.findMany({
+            where: {
+                userId,
+                status: { in: ACTIVE_APPOINTMENT_STATUSES },
+                ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+                // Look back a day so long appointments that started earlier still count
+                appointmentDate: { gte: new Date(from.getTime() - 24 * 60 * 60000), lt: to }
+            },
+            include: {
+                service: { select: { duration: true } }
+            }
+        });
+
+        return appointments.map((appointment) => ({
+            appointmentDate: appointment.appointmentDate,
+            duration: appointment.service.duration
+        }));
+    }
+
+    // Whether an appointment of the given duration would overlap another active appointment of the clinic
+    async hasConflict(userId: string, appointmentDate: Date, duration: number, excludeAppointmentId?: string): Promise<boolean> {
+        const end = new Date(appointmentDate.getTime() + duration * 60000);
+        const booked = await this.getBookedSlots(userId, appointmentDate, end, excludeAppointmentId);
+        return overlapsBooked(appointmentDate, duration, booked);
+    }
+
+    // Run `write` only if the slot is still free. The overlap check and the write share a serializable
+    // transaction, so two bookings of the same slot at the same time cannot both succeed: Postgres aborts
+    // one, and its retry finds the other's appointment. Resolves to null when the slot is taken.
+    async bookSlot<T>(
+        userId: string,
+        appointmentDate: Date,
+        duration: number,
+        write: (tx: BookingDb) => Promise<T>,
+        excludeAppointmentId?: string
+    ): Promise<T | null> {
+        const end = new Date(appointmentDate.getTime() + duration * 60000);
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await prisma.$transaction(async (tx) => {
+                    const booked = await this.getBookedSlots(userId, appointmentDate, end, excludeAppointmentId, tx);
+                    return overlapsBooked(appointmentDate, duration, booked) ? null : write(tx);
+                }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+            } catch (error) {
+                if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034' && attempt < BOOKING_ATTEMPTS) {
+                    continue;
+                }
+                throw error;
+            }
+        }
+    }
+
+    private setStep(context: BotContext, step: string, data: BookingData = {}) {
+        return conversationStateService.setFor(context, {
+            flow: BOOKING_FLOW,
+            step,
+            data
+        });
+    }
+
+    private endBooking(context: BotContext) {
+        return conversationStateService.clearFor(context);
+    }
+
+    // Entry point when the patient asks to book an appointment, optionally for a service they already picked
+    async startBooking(context: BotContext, serviceId?: string): Promise<string> {
+        const { language, clinicSettings } = context;
+        const services = clinicSettings.services || [];
+
+        if (services.length === 0) {
+            return botText(context, 'booking.noServices');
+        }
+
+        const preselected = serviceId && services.find((service: any) => service.id === serviceId);
+        if (preselected) {
+            return this.proposeSlots(context, preselected);
+        }
+
+        await this.setStep(context, 'selectService');
+
+        let text = botText(context, 'booking.selectService');
+        services.forEach((service: any, index: number) => {
+            text += '\n' + botText(context, 'booking.serviceItem', {
+                number: formatMenuNumber(index + 1, language),
+                name: pickLocalized(service, 'name', language) || '',
+                duration: service.duration
+            });
+        });
+        text += `\n\n${botText(context, 'booking.cancelHint')}`;
+
+        return text;
+    }
+
+    // Continue a booking that is already in progress
+    async continueBooking(context: BotContext, state: ConversationState, content: string): Promise<string> {
+        const { language, clinicSettings } = context;
+        const data = state.data as BookingData;
+        const reply = content.trim().toLowerCase();
+        const choice = parseMenuNumber(content);
+
+        if (CANCEL_REPLIES.includes(reply)) {
+            await this.endBooking(context);
+            return botText(context, 'booking.cancelled');
+        }
+
+        switch (state.step) {
+            case 'selectService': {
+                const services = clinicSettings.services || [];
+                const service = (choice !== null && services[choice - 1]) || services.find((item: any) =>
+                    item.nameEn.toLowerCase() === reply || (item.nameAr && item.nameAr === content.trim())
+                );
+
+                if (!service) {
+                    return botText(context, 'booking.invalidService');
+                }
+
+                return this.proposeSlots(context, service);
+            }
+
+            case 'selectSlot': {
+                const slot = choice !== null ? data.slots?.[choice - 1] : undefined;
+                if (!slot) {
+                    return botText(context, 'booking.invalidSlot');
+                }
+
+                await this.setStep(context, 'enterName', { ...data, slot });
+                return botText(context, 'booking.askName');
+            }
+
+            case 'enterName': {
+                const patientName = content.trim();
+                if (patientName.length < 2) {
+                    return botText(context, 'booking.invalidName');
+                }
+
+                const service = (clinicSettings.services || []).find((item: any) => item.id === data.serviceId);
+                await this.setStep(context, 'confirm', { ...data, patientName });
+
+                return botText(context, 'booking.confirm', {
+                    service: pickLocalized(service, 'name', language) || '',
+                    when: this.formatSlot(new Date(data.slot!), language, clinicSettings.timezone),
+                    name: patientName
+                });
+            }
+
+            case 'confirm': {
+                if (!YES_REPLIES.includes(reply)) {
+                    return botText(context, 'booking.confirmHint');
+                }
+
+                await this.endBooking(context);
+                const appointment = await this.createAppointment(context, data);
+
+                if (!appointment) {
+                    return botText(context, 'booking.slotTaken');
+                }
+
+                return botText(context, 'booking.booked', { when: this.formatSlot(appointment.appointmentDate, language, clinicSettings.timezone) });
+            }
+
+            default:
+                // Unknown step, e.g. left over from an older version of the flow
+                return this.startBooking(context);
+        }
+    }
+
+    // Offer the next free slots for a service and wait for the patient to pick one
+    private async proposeSlots(context: BotContext, service: any): Promise<string> {
+        const { language, clinicSettings } = context;
+
+        const from = new Date();
+        const to = new Date(from.getTime() + 8 * 24 * 60 * 60000);
+        const booked = await this.getBookedSlots(clinicSettings.userId, from, to);
+        const slots = this.findAvailableSlots(clinicSettings.workingHours, service.duration, booked, {
+            from,
+            closures: clinicSettings.closures,
+            timeZone: clinicSettings.timezone
+        });
+
+        if (slots.length === 0) {
+            await this.endBooking(context);
+            return botText(context, 'booking.noSlots');
+        }
+
+        await this.setStep(context, 'selectSlot', {
+            serviceId: service.id,
+            slots: slots.map((slot) => slot.toISOString())
+        });
+
+        let text = botText(context, 'booking.availableTimes');
+        slots.forEach((slot, slotIndex) => {
+            text += `\n${formatMenuNumber(slotIndex + 1, language)}. ${this.formatSlot(slot, language, clinicSettings.timezone)}`;
+        });
+        text += `\n\n${botText(context, 'booking.pickTime')}`;
+        return text;
+    }
+
+    // Persist the appointment, re-checking the slot in case it was taken meanwhile
+    private async createAppointment(context: BotContext, data: BookingData) {
+        const { clinicSettings, senderNumber } = context;
+        const service = (clinicSettings.services || []).find((item: any) => item.id === data.serviceId);
+        if (!service || !data.slot || !data.patientName) {
+            return null;
+        }
+
+        const appointmentDate = new Date(data.slot);
+
+        if (await this.hasConflict(clinicSettings.userId, appointmentDate, service.duration)) {
+            return null;
+        }
+
+        const appointment = {
+            userId: clinicSettings.userId,
+            patientName: data.patientName,
+            patientPhone: jidToPhone(senderNumber),
+            serviceId: service.id,
+            appointmentDate,
+            status: 'scheduled',
+            notes: 'Booked via WhatsApp'
+        };
+
+        if (context.simulation) {
+            context.simulation.actions.push({ action: 'appointment.create', data: appointment });
+            return appointment;
+        }
+
+        const patient = await patientService.findOrCreate(clinicSettings.userId, senderNumber, { name: data.patientName });
+
+        return this.bookSlot(clinicSettings.userId, appointmentDate, service.duration, (tx) =>
+            tx.appointment.create({ data: { ...appointment, patientId: patient?.id } })
+        );
+    }
+
+    // A date and time as the patient reads it, on the clinic's clock
+    formatSlot(slot: Date, language: Language, timeZone?: string | null): string {
+        return slot.toLocaleString(LOCALE_TAGS[language], {
+            weekday: 'long',
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone: timeZone || undefined
+        });
+    }
+
+    // A time of day on the clinic's clock, e.g. when it closes today
+    formatTime(date: Date, language: Language, timeZone?: string | null): string {
+        return date.toLocaleTimeString(LOCALE_TAGS[language], {
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone: timeZone || undefined
+        });
+    }
+}
+
+export default new BookingService();
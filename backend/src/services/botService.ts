@@ -0,0 +1,236 @@
+// src/services/botService.ts
+import bookingService, { BOOKING_FLOW } from './bookingService';
+import { ConversationState } from './conversationStateService';
+import handoffService, { HANDOFF_FLOW } from './handoffService';
+import { getIntentClassifier } from './intentClassifier';
+import menuService, { MENU_FLOW } from './menuService';
+import reminderService, { REMINDER_FLOW } from './reminderService';
+import { botText, LOCALE_TAGS, MessageKey, pickLocalized } from '../i18n';
+import { BotContext, BotIntent, BotMatch, BotSimulation, Language } from '../types/bot';
+import { OutboundContent } from '../types/message';
+import { findKeywordRule } from '../utils/keywordRules';
+import {
+  Closure,
+  DAY_NAMES,
+  formatMinutes,
+  getDayIntervals,
+  getOpenStatus,
+  getUpcomingClosures,
+  toClosureKey,
+  toWorkingHours
+} from '../utils/workingHours';
+import { parseLanguageSwitch } from '../utils/languageDetection';
+
+// Closures this many days ahead are mentioned with the working hours
+const UPCOMING_CLOSURE_DAYS = 30;
+
+// Replies acknowledging each kind of media message
+const MEDIA_REPLY_KEYS: MessageKey[] = ['media.image', 'media.video', 'media.document', 'media.audio', 'media.location'];
+
+interface BotResponseOptions {
+  simulation?: BotSimulation; // record what the bot would do instead of doing it
+  attachments?: OutboundContent[]; // collects rich messages to send after the text reply
+}
+
+// Helper function to generate bot response based on message content. The reply may be empty when
+// everything is sent as attachments.
+export async function generateBotResponse(
+  content: string, 
+  clinicSettings: any, 
+  language: Language,
+  senderNumber: string,
+  whatsappSessionId: string,
+  conversationState: ConversationState | null,
+  { simulation, attachments }: BotResponseOptions = {}
+): Promise<string | null> {
+  const botContext: BotContext = { whatsappSessionId, senderNumber, language, clinicSettings, simulation, attachments };
+  
+  // Staff are handling this conversation; stay silent and keep it with them while it is active
+  if (conversationState?.flow === HANDOFF_FLOW) {
+    recordMatch(botContext, { source: 'handoff' });
+    if (!simulation) {
+      await handoffService.keepAlive(whatsappSessionId, senderNumber, conversationState);
+    }
+    return null;
+  }
+  
+  // A booking dialog in progress takes every reply until it completes or is cancelled
+  if (conversationState?.flow === BOOKING_FLOW) {
+    recordMatch(botContext, { source: 'booking' });
+    return bookingService.continueBooking(botContext, conversationState, content);
+  }
+  
+  // "English" / "عربي": the language was already switched for this message, so confirm it with the menu
+  if (parseLanguageSwitch(content)) {
+    recordMatch(botContext, { source: 'languageSwitch' });
+    return `${botText(botContext, 'language.changed')}\n\n${await menuService.showMainMenu(botContext, { withGreeting: false })}`;
+  }
+  
+  // "1" or "2" in reply to an appointment reminder
+  if (conversationState?.flow === REMINDER_FLOW) {
+    const reply = await reminderService.handleReply(botContext, conversationState, content);
+    if (reply) {
+      recordMatch(botContext, { source: 'reminder' });
+      return reply;
+    }
+  }
+  
+  // A number picked from the menu we showed last
+  if (conversationState?.flow === MENU_FLOW) {
+    const selection = await menuService.handleSelection(botContext, conversationState, content);
+    if (selection) {
+      recordMatch(botContext, { source: 'menu', intent: 'intent' in selection ? selection.intent : undefined });
+      return 'reply' in selection
+        ? selection.reply
+        : respondToIntent(selection.intent, botContext, selection.serviceId);
+    }
+  }
+  
+  // The clinic's own keyword rules come first, by priority
+  const keywordMatch = findKeywordRule(clinicSettings.customKeywords || [], content, new Date(), clinicSettings.timezone);
+  if (keywordMatch) {
+    recordMatch(botContext, { source: 'keyword', keywordId: keywordMatch.rule.id, keyword: keywordMatch.term });
+    return respondToKeywordRule(keywordMatch.rule, botContext);
+  }
+  
+  const [intentMatch] = getIntentClassifier().classify(content);
+  if (intentMatch) {
+    recordMatch(botContext, { source: 'intent', ...intentMatch });
+    return respondToIntent(intentMatch.intent, botContext);
+  }
+  
+  // Default response
+  recordMatch(botContext, { source: 'fallback' });
+  return `${botText(botContext, 'fallback.notUnderstood')}\n\n${await menuService.showMainMenu(botContext, { withGreeting: false })}`;
+}
+
+// Acknowledge a photo, document, voice note or location the patient sent without a question
+export async function generateMediaResponse(
+  messageType: string,
+  clinicSettings: any,
+  language: Language,
+  senderNumber: string,
+  whatsappSessionId: string,
+  conversationState: ConversationState | null
+): Promise<string | null> {
+  // Staff handling the conversation see the media in the inbox
+  if (conversationState?.flow === HANDOFF_FLOW) {
+    await handoffService.keepAlive(whatsappSessionId, senderNumber, conversationState);
+    return null;
+  }
+  
+  const key = `media.${messageType}` as MessageKey;
+  if (!MEDIA_REPLY_KEYS.includes(key)) {
+    return null;
+  }
+  
+  return botText({ whatsappSessionId, senderNumber, language, clinicSettings }, key);
+}
+
+// Helper function to note how a reply was chosen, for the simulator
+function recordMatch(context: BotContext, match: BotMatch) {
+  if (context.simulation) {
+    context.simulation.match = match;
+  }
+}
+
+// Helper function to answer an intent, whether it came from keywords or a menu number
+async function respondToIntent(intent: BotIntent, context: BotContext, serviceId?: string): Promise<string> {
+  const { clinicSettings } = context;
+  
+  switch (intent) {
+    case 'greeting':
+      return menuService.showMainMenu(context);
+    case 'location':
+      // A map pin opens directions in the patient's maps app, so it replaces the address text
+      if (clinicSettings.latitude != null && clinicSettings.longitude != null && context.attachments) {
+        context.attachments.push({
+          type: 'location',
+          latitude: clinicSettings.latitude,
+          longitude: clinicSettings.longitude,
+          name: clinicSettings.user.clinicName,
+          address: clinicSettings.user.clinicAddress ?? undefined
+        });
+        return '';
+      }
+      return clinicSettings.user.clinicAddress
+        ? botText(context, 'location.address', { address: clinicSettings.user.clinicAddress })
+        : botText(context, 'location.unavailable');
+    case 'hours':
+      return getWorkingHours(context);
+    case 'services':
+      if (clinicSettings.priceListImageUrl) {
+        context.attachments?.push({ type: 'image', url: clinicSettings.priceListImageUrl });
+      }
+      return menuService.showServicesMenu(context);
+    case 'booking':
+      return bookingService.startBooking(context, serviceId);
+    case 'contact':
+      return clinicSettings.user.clinicPhone
+        ? botText(context, 'contact.phone', { phone: clinicSettings.user.clinicPhone })
+        : botText(context, 'contact.unavailable');
+    case 'human':
+      await handoffService.startFromBot(context);
+      return botText(context, 'handoff.started');
+  }
+}
+
+// Helper function to answer a clinic keyword rule, then run its follow-up, e.g. start a booking
+async function respondToKeywordRule(rule: any, context: BotContext): Promise<string | null> {
+  const response = pickLocalized(rule, 'response', context.language);
+  if (!rule.followUpIntent) {
+    return response || null;
+  }
+  
+  const followUp = await respondToIntent(rule.followUpIntent as BotIntent, context);
+  return [response, followUp].filter(Boolean).join('\n\n');
+}
+
+// Helper function to get working hours, starting with whether the clinic is open right now
+function getWorkingHours(context: BotContext): string {
+  const { clinicSettings, language } = context;
+  const hours = toWorkingHours(clinicSettings.workingHours);
+  
+  // List the days in week order, whatever order they were stored in
+  const openDays = DAY_NAMES
+    .map((day) => ({ day, intervals: getDayIntervals(hours[day]) }))
+    .filter(({ intervals }) => intervals.length > 0);
+  if (openDays.length === 0) {
+    return botText(context, 'hours.unavailable');
+  }
+  
+  const now = new Date();
+  const status = getOpenStatus(clinicSettings, now);
+  let hoursText = status.isOpen
+    ? botText(context, 'hours.openNow', { time: bookingService.formatTime(status.closesAt!, language, clinicSettings.timezone) })
+    : status.nextOpening
+      ? botText(context, 'hours.closedNow', { when: bookingService.formatSlot(status.nextOpening, language, clinicSettings.timezone) })
+      : botText(context, 'hours.closed');
+  
+  hoursText += `\n\n${botText(context, 'hours.title')}`;
+  for (const { day, intervals } of openDays) {
+    const ranges = intervals.map(([open, close]) => `${formatMinutes(open)} - ${formatMinutes(close)}`).join(', ');
+    hoursText += `\n${botText(context, `day.${day}` as MessageKey)}: ${ranges}`;
+  }
+  
+  const closures = getUpcomingClosures(clinicSettings, now, UPCOMING_CLOSURE_DAYS);
+  if (closures.length > 0) {
+    hoursText += `\n\n${botText(context, 'hours.closures')}`;
+    for (const closure of closures) {
+      const reason = pickLocalized(closure, 'reason', language);
+      hoursText += `\n${formatClosureDates(closure, language)}${reason ? ` (${reason})` : ''}`;
+    }
+  }
+  
+  return hoursText;
+}
+
+// Helper function to format the days of a closure, e.g. "25 Dec" or "31 Dec - 1 Jan"
+function formatClosureDates(closure: Closure, language: Language): string {
+  const format = (value: Date | string) => new Date(`${toClosureKey(value)}T00:00:00Z`)
+    .toLocaleDateString(LOCALE_TAGS[language], { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  
+  const start = format(closure.startDate);
+  const end = format(closure.endDate);
+  return start === end ? start : `${start} - ${end}`;
+}
@@ -0,0 +1,279 @@
+// src/services/cloudApiProvider.ts
+import axios, { AxiosInstance } from 'axios';
+import type { WebhookPayload } from './webhookProcessor';
+import {
+    CreatedSession,
+    CreateSessionParams,
+    fetchMediaFile,
+    InboundMedia,
+    MessagingProvider,
+    ProviderSession,
+    WebhookRequest
+} from './messagingProvider';
+import { OutboundContent } from '../types/message';
+import { formatOptionsAsText } from '../utils/outboundContent';
+import { toJid } from '../utils/phone';
+import { safeEqual, verifySignature } from '../utils/webhookSecurity';
+
+const CLOUD_API_VERSION = process.env.WHATSAPP_CLOUD_API_VERSION || 'v21.0';
+
+// WhatsApp limits for interactive messages
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE_LENGTH = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_ROW_TITLE_LENGTH = 24;
+const MAX_ROW_DESCRIPTION_LENGTH = 72;
+
+// Delivery statuses of the Cloud API, as the status codes of WasenderAPI's messages.update events
+const STATUS_CODES: Record<string, number> = {
+    failed: 0,
+    sent: 2,
+    delivered: 3,
+    read: 4
+};
+
+// Inbound media types and the message fields parseInboundMessage reads them from
+const MEDIA_FIELDS: Record<string, string> = {
+    image: 'imageMessage',
+    video: 'videoMessage',
+    document: 'documentMessage',
+    audio: 'audioMessage',
+};
+
+// The body of POST /<phone number ID>/messages for some content
+export function toCloudMessage(to: string, content: OutboundContent): Record<string, unknown> {
+    const message = { messaging_product: 'whatsapp', recipient_type: 'individual', to };
+
+    switch (content.type) {
+        case 'text':
+            return { ...message, type: 'text', text: { body: content.text } };
+        case 'image':
+            return { ...message, type: 'image', image: { link: content.url, caption: content.caption } };
+        case 'document':
+            return { ...message, type: 'document', document: { link: content.url, filename: content.fileName, caption: content.caption } };
+        case 'location': {
+            const { latitude, longitude, name, address } = content;
+            return { ...message, type: 'location', location: { latitude, longitude, name, address } };
+        }
+        case 'interactive': {
+            const { text, options, buttonText } = content;
+            // Up to three short options fit as reply buttons, up to ten as a list; more go out as text
+            if (options.length <= MAX_BUTTONS && options.every((option) => option.title.length <= MAX_BUTTON_TITLE_LENGTH)) {
+                return {
+                    ...message,
+                    type: 'interactive',
+                    interactive: {
+                        type: 'button',
+                        body: { text },
+                        action: { buttons: options.map(({ id, title }) => ({ type: 'reply', reply: { id, title } })) }
+                    }
+                };
+            }
+            if (options.length <= MAX_LIST_ROWS && options.every((option) => option.title.length <= MAX_ROW_TITLE_LENGTH)) {
+                return {
+                    ...message,
+                    type: 'interactive',
+                    interactive: {
+                        type: 'list',
+                        body: { text },
+                        action: {
+                            button: (buttonText || 'Options').slice(0, MAX_BUTTON_TITLE_LENGTH),
+                            sections: [{
+                                rows: options.map(({ id, title, description }) => ({
+                                    id,
+                                    title,
+                                    description: description?.slice(0, MAX_ROW_DESCRIPTION_LENGTH)
+                                }))
+                            }]
+                        }
+                    }
+                };
+            }
+            return { ...message, type: 'text', text: { body: formatOptionsAsText(text, options) } };
+        }
+    }
+}
+
+// Helper function to turn a Cloud API message into the `message` of a messages.received event
+function toWasenderMessage(message: any): Record<string, any> {
+    switch (message.type) {
+        case 'text':
+            return { conversation: message.text?.body };
+        case 'interactive': {
+            // A tapped button or list row arrives as its title, like a typed answer
+            const reply = message.interactive?.button_reply ?? message.interactive?.list_reply;
+            return { conversation: reply?.title };
+        }
+        case 'button':
+            return { conversation: message.button?.text };
+        case 'location':
+            return {
+                locationMessage: {
+                    degreesLatitude: message.location?.latitude,
+                    degreesLongitude: message.location?.longitude,
+                    name: message.location?.name,
+                    address: message.location?.address
+                }
+            };
+    }
+
+    const field = MEDIA_FIELDS[message.type];
+    if (field && message[message.type]) {
+        const media = message[message.type];
+        return {
+            [field]: {
+                id: media.id, // downloaded through the media endpoint
+                mimetype: media.mime_type,
+                caption: media.caption,
+                fileName: media.filename,
+                ptt: media.voice
+            }
+        };
+    }
+
+    // Stickers, reactions, contacts and the like are skipped by the processor
+    return { [`${message.type}Message`]: message[message.type] ?? {} };
+}
+
+// The official WhatsApp Cloud API from Meta. A session is a business phone number: its ID, an access
+// token and the app secret webhooks are signed with, all set up in Meta's dashboard. Webhooks must be
+// registered with the session's URL, as they carry no secret to find the session by.
+export class CloudApiProvider implements MessagingProvider {
+    readonly name = 'cloud';
+    readonly signatureHeader = 'X-Hub-Signature-256';
+    private apiClient: AxiosInstance;
+
+    constructor() {
+        this.apiClient = axios.create({
+            baseURL: `https://graph.facebook.com/${CLOUD_API_VERSION}`,
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json',
+            },
+        });
+    }
+
+    // Check the number and token with Meta; the session is stored with what the clinic gave us
+    async createSession({ settings }: CreateSessionParams): Promise<CreatedSession | null> {
+        const { phone_number_id, access_token, app_secret } = settings;
+        if (!phone_number_id || !access_token || !app_secret) {
+            return null;
+        }
+
+        const session = { provider: this.name, sessionId: String(phone_number_id), apiKey: access_token, webhookSecret: app_secret };
+        const status = await this.getSessionStatus(session);
+        return { sessionId: session.sessionId, apiKey: access_token, webhookSecret: app_secret, status: status || 'connected' };
+    }
+
+    // Numbers are registered in Meta's dashboard, so there is nothing to connect; this reports their status
+    async connectSession(session: ProviderSession): Promise<string | null> {
+        return this.getSessionStatus(session);
+    }
+
+    // Numbers stay registered with Meta until removed there
+    async disconnectSession(): Promise<void> {}
+
+    async getSessionStatus(session: ProviderSession): Promise<string | null> {
+        const response = await this.apiClient.get(`/${session.sessionId}`, {
+            headers: this.authorize(session),
+            params: { fields: 'status' }
+        });
+        return typeof response.data?.status === 'string' ? response.data.status.toLowerCase() : null;
+    }
+
+    async send(session: ProviderSession, to: string, content: OutboundContent): Promise<string | null> {
+        try {
+            const response = await this.apiClient.post(`/${session.sessionId}/messages`, toCloudMessage(to, content), {
+                headers: this.authorize(session)
+            });
+            return response.data?.messages?.[0]?.id ?? null;
+        } catch (error: any) {
+            console.error('Error sending WhatsApp Cloud API message:', error.response?.data || error.message);
+            throw error;
+        }
+    }
+
+    // Media is looked up by its ID for a short-lived URL, which also needs the access token
+    async downloadMedia(session: ProviderSession, { mediaMessage, maxBytes }: InboundMedia): Promise<Buffer> {
+        const mediaId = Object.values(mediaMessage)[0]?.id;
+        if (!mediaId) {
+            throw new Error('Media message has no media ID');
+        }
+
+        const response = await this.apiClient.get(`/${mediaId}`, { headers: this.authorize(session) });
+        if (!response.data?.url) {
+            throw new Error(`No download URL for media ${mediaId}`);
+        }
+        return fetchMediaFile(response.data.url, maxBytes, this.authorize(session));
+    }
+
+    // Meta signs the raw body with the app secret as "sha256=<hex HMAC>"
+    verifyWebhook(session: ProviderSession, { rawBody, signature }: WebhookRequest): boolean {
+        return signature.startsWith('sha256=') && verifySignature(rawBody, signature, session.webhookSecret);
+    }
+
+    // Messages and delivery statuses become messages.received and messages.update events, one per
+    // message or status; a webhook can batch several
+    parseWebhook(body: any): WebhookPayload[] | null {
+        if (body?.object !== 'whatsapp_business_account' || !Array.isArray(body.entry)) {
+            return null;
+        }
+
+        const events: WebhookPayload[] = [];
+        for (const entry of body.entry) {
+            for (const change of entry?.changes ?? []) {
+                if (change?.field !== 'messages' || !change.value) {
+                    continue;
+                }
+                const { messages = [], statuses = [], contacts = [] } = change.value;
+
+                for (const message of messages) {
+                    const contact = contacts.find((candidate: any) => candidate.wa_id === message.from);
+                    events.push({
+                        id: `cloud:${message.id}`,
+                        event: 'messages.received',
+                        timestamp: Number(message.timestamp),
+                        data: {
+                            key: { id: message.id, fromMe: false, remoteJid: toJid(message.from) },
+                            pushName: contact?.profile?.name,
+                            message: toWasenderMessage(message)
+                        }
+                    });
+                }
+
+                for (const status of statuses) {
+                    if (STATUS_CODES[status.status] === undefined) {
+                        continue;
+                    }
+                    events.push({
+                        id: `cloud:${status.id}:${status.status}`,
+                        event: 'messages.update',
+                        timestamp: Number(status.timestamp),
+                        data: {
+                            key: { id: status.id, fromMe: true, remoteJid: toJid(status.recipient_id) },
+                            update: { status: STATUS_CODES[status.status] }
+                        }
+                    });
+                }
+            }
+        }
+        return events;
+    }
+
+    // Meta checks a new webhook URL with GET ?hub.mode=subscribe&hub.verify_token=...&hub.challenge=...
+    // The verify token is the one set in WHATSAPP_CLOUD_VERIFY_TOKEN and in Meta's dashboard.
+    verifySubscription(query: Record<string, unknown>): string | null {
+        const verifyToken = process.env.WHATSAPP_CLOUD_VERIFY_TOKEN;
+        const token = query['hub.verify_token'];
+        const challenge = query['hub.challenge'];
+
+        if (!verifyToken || query['hub.mode'] !== 'subscribe' || typeof token !== 'string' || typeof challenge !== 'string') {
+            return null;
+        }
+        return safeEqual(token, verifyToken) ? challenge : null;
+    }
+
+    private authorize(session: ProviderSession): Record<string, string> {
+        return { Authorization: `Bearer ${session.apiKey}` };
+    }
+}
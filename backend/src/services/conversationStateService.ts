@@ -0,0 +1,109 @@
+// src/services/conversationStateService.ts
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BotContext } from '../types/bot';
+
+const prisma = new PrismaClient();
+
+// How long a patient can stay silent before the bot forgets where the conversation was
+const DEFAULT_TTL_MINUTES = parseInt(process.env.CONVERSATION_TTL_MINUTES || '30', 10);
+
+export interface ConversationState {
+    flow: string; // 'menu', 'booking', etc.
+    step: string;
+    data: Record<string, any>;
+    expiresAt: Date;
+}
+
+interface SetStateParams {
+    flow: string;
+    step: string;
+    data?: Record<string, any>;
+    ttlMinutes?: number;
+}
+
+class ConversationStateService {
+    // Current state of a patient's conversation, or null if there is none or it expired
+    async get(whatsappSessionId: string, senderNumber: string): Promise<ConversationState | null> {
+        const state = await prisma.conversationState.findUnique({
+            where: {
+                whatsappSessionId_senderNumber: { whatsappSessionId, senderNumber }
+            }
+        });
+
+        if (!state) {
+            return null;
+        }
+
+        if (state.expiresAt.getTime() <= Date.now()) {
+            await this.clear(whatsappSessionId, senderNumber);
+            return null;
+        }
+
+        return {
+            flow: state.flow,
+            step: state.step,
+            data: (state.data as Record<string, any>) || {},
+            expiresAt: state.expiresAt
+        };
+    }
+
+    // Move the conversation to a new step, extending its expiry
+    async set(whatsappSessionId: string, senderNumber: string, params: SetStateParams): Promise<void> {
+        const { flow, step, data = {}, ttlMinutes = DEFAULT_TTL_MINUTES } = params;
+        const expiresAt = new Date(Date.now() + ttlMinutes * 60000);
+        const values = { flow, step, data: data as Prisma.InputJsonObject, expiresAt };
+
+        await prisma.conversationState.upsert({
+            where: {
+                whatsappSessionId_senderNumber: { whatsappSessionId, senderNumber }
+            },
+            create: { whatsappSessionId, senderNumber, ...values },
+            update: values
+        });
+    }
+
+    // Move the patient a bot is answering to a new step. A simulated conversation keeps its state
+    // in the simulation instead.
+    async setFor(context: BotContext, params: SetStateParams): Promise<void> {
+        if (!context.simulation) {
+            return this.set(context.whatsappSessionId, context.senderNumber, params);
+        }
+
+        const { flow, step, data = {}, ttlMinutes = DEFAULT_TTL_MINUTES } = params;
+        context.simulation.state = { flow, step, data, expiresAt: new Date(Date.now() + ttlMinutes * 60000) };
+    }
+
+    async clearFor(context: BotContext): Promise<void> {
+        if (!context.simulation) {
+            return this.clear(context.whatsappSessionId, context.senderNumber);
+        }
+
+        context.simulation.state = null;
+    }
+
+    // Unexpired states of a session that are in the given flow, keyed by sender
+    async listActive(whatsappSessionId: string, flow: string): Promise<Map<string, ConversationState>> {
+        const states = await prisma.conversationState.findMany({
+            where: {
+                whatsappSessionId,
+                flow,
+                expiresAt: { gt: new Date() }
+            }
+        });
+
+        return new Map(states.map((state) => [state.senderNumber, {
+            flow: state.flow,
+            step: state.step,
+            data: (state.data as Record<string, any>) || {},
+            expiresAt: state.expiresAt
+        }]));
+    }
+
+    async clear(whatsappSessionId: string, senderNumber: string): Promise<void> {
+        await prisma.conversationState.deleteMany({
+            where: { whatsappSessionId, senderNumber }
+        });
+    }
+}
+
+export default new ConversationStateService();
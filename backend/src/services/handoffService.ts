@@ -0,0 +1,106 @@
+// src/services/handoffService.ts
+import { PrismaClient } from '@prisma/client';
+import conversationStateService, { ConversationState } from './conversationStateService';
+import { getClinicLanguage } from './languageService';
+import { getMessagingProvider } from './messagingProvider';
+import { MessageOverrides, translate } from '../i18n';
+import { BotContext } from '../types/bot';
+import { jidToPhone, toDigits } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+export const HANDOFF_FLOW = 'handoff';
+
+// Without a message from the patient or staff for this long, the bot takes the conversation back
+const HANDOFF_IDLE_MINUTES = parseInt(process.env.HANDOFF_IDLE_MINUTES || '120', 10);
+
+type HandoffRequester = 'patient' | 'staff';
+
+// Helper function to build the state of a conversation waiting for staff
+function waitingState(requestedBy: HandoffRequester) {
+    return {
+        flow: HANDOFF_FLOW,
+        step: 'waiting',
+        data: { requestedBy, since: new Date().toISOString() },
+        ttlMinutes: HANDOFF_IDLE_MINUTES
+    };
+}
+
+class HandoffService {
+    // Hand a conversation over to staff; the bot stays silent until it is released or goes idle.
+    // Staff are alerted when the patient asked for it, not when they took over themselves.
+    async start(whatsappSessionId: string, senderNumber: string, requestedBy: HandoffRequester): Promise<void> {
+        await conversationStateService.set(whatsappSessionId, senderNumber, waitingState(requestedBy));
+
+        if (requestedBy === 'patient') {
+            await this.notifyStaff(whatsappSessionId, senderNumber);
+        }
+    }
+
+    // The patient asked the bot for a person. A simulated conversation only records the handoff.
+    async startFromBot(context: BotContext): Promise<void> {
+        if (!context.simulation) {
+            return this.start(context.whatsappSessionId, context.senderNumber, 'patient');
+        }
+
+        context.simulation.actions.push({ action: 'handoff.start' });
+        await conversationStateService.setFor(context, waitingState('patient'));
+    }
+
+    // Restart the idle timeout after activity in a handed-off conversation
+    async keepAlive(whatsappSessionId: string, senderNumber: string, state: ConversationState): Promise<void> {
+        await conversationStateService.set(whatsappSessionId, senderNumber, {
+            flow: HANDOFF_FLOW,
+            step: state.step,
+            data: state.data,
+            ttlMinutes: HANDOFF_IDLE_MINUTES
+        });
+    }
+
+    // Give the conversation back to the bot
+    async release(whatsappSessionId: string, senderNumber: string): Promise<void> {
+        await conversationStateService.clear(whatsappSessionId, senderNumber);
+    }
+
+    // The handoff of one conversation, or null if the bot is answering it
+    async get(whatsappSessionId: string, senderNumber: string): Promise<ConversationState | null> {
+        const state = await conversationStateService.get(whatsappSessionId, senderNumber);
+        return state?.flow === HANDOFF_FLOW ? state : null;
+    }
+
+    // Conversations of a session waiting for staff, keyed by the patient's JID
+    listActive(whatsappSessionId: string): Promise<Map<string, ConversationState>> {
+        return conversationStateService.listActive(whatsappSessionId, HANDOFF_FLOW);
+    }
+
+    // Alert the clinic's phone on WhatsApp. This is best effort: the conversation also shows as
+    // needing attention in the inbox, so a failed alert must not fail the patient's message.
+    private async notifyStaff(whatsappSessionId: string, senderNumber: string): Promise<void> {
+        try {
+            const session = await prisma.whatsappSession.findUnique({
+                where: { id: whatsappSessionId },
+                include: { user: { include: { clinicSettings: true } } }
+            });
+
+            const clinicPhone = session?.user.clinicPhone;
+            if (!session || !clinicPhone || toDigits(clinicPhone) === toDigits(session.phoneNumber)) {
+                return;
+            }
+
+            await getMessagingProvider(session.provider).send(session, toDigits(clinicPhone), {
+                type: 'text',
+                text: translate(
+                    'handoff.staffAlert',
+                    getClinicLanguage(session.user.languagePreference),
+                    { patient: jidToPhone(senderNumber) },
+                    session.user.clinicSettings?.messageOverrides as MessageOverrides | null
+                )
+            });
+        } catch (error) {
+            console.error('Error notifying staff of handoff:', error);
+        }
+    }
+}
+
+export default new HandoffService();
@@ -0,0 +1,220 @@
+// src/services/intentClassifier.ts
+import { BotIntent } from '../types/bot';
+import { editDistance, tokenize } from '../utils/textNormalization';
+
+export interface IntentMatch {
+    intent: BotIntent;
+    confidence: number; // 0-1
+    keyword: string; // the keyword that matched, for debugging rules
+}
+
+// Anything that can tell what a patient is asking for. The bot answers the first match, so
+// classifiers return their matches best first.
+export interface IntentClassifier {
+    classify(text: string): IntentMatch[];
+}
+
+export interface IntentRule {
+    intent: BotIntent;
+    keywords: string[]; // words or phrases that clearly ask for the intent
+    weakKeywords?: string[]; // words that hint at it, e.g. "time", which a booking question may also contain
+}
+
+export interface KeywordClassifierOptions {
+    rules?: IntentRule[];
+    priority?: BotIntent[]; // breaks ties, e.g. "hi, I want to book" is a booking rather than a greeting
+    minConfidence?: number;
+    fuzzy?: boolean;
+}
+
+// Keywords are normalized like messages, so "تكلفة" also matches "تكلفه"
+export const DEFAULT_INTENT_RULES: IntentRule[] = [
+    {
+        intent: 'greeting',
+        keywords: ['hi', 'hello', 'hey', 'good morning', 'good afternoon', 'good evening', 'salam', 'marhaba', 'ahlan',
+            'مرحبا', 'سلام', 'أهلا', 'هلا', 'صباح الخير', 'مساء الخير'],
+        weakKeywords: ['start', 'help', 'menu', 'مساعدة', 'القائمة']
+    },
+    {
+        intent: 'location',
+        keywords: ['location', 'address', 'directions', 'located', 'map', 'عنوان', 'مكان', 'موقع', 'خريطة', 'لوكيشن'],
+        weakKeywords: ['where', 'وين', 'أين', 'فين']
+    },
+    {
+        intent: 'hours',
+        keywords: ['hours', 'opening', 'closing', 'ساعات', 'دوام'],
+        weakKeywords: ['open', 'close', 'closed', 'time', 'وقت', 'يفتح', 'تفتح', 'مفتوح', 'مغلق', 'تسكر']
+    },
+    {
+        intent: 'services',
+        keywords: ['price', 'prices', 'cost', 'costs', 'fee', 'fees', 'service', 'services', 'treatment', 'treatments',
+            'how much', 'سعر', 'أسعار', 'تكلفة', 'خدمة', 'خدمات', 'علاج', 'بكم', 'كم سعر'],
+        weakKeywords: ['list', 'قائمة']
+    },
+    {
+        intent: 'booking',
+        keywords: ['book', 'booking', 'appointment', 'appointments', 'schedule', 'reserve', 'reservation',
+            'حجز', 'أحجز', 'موعد', 'ميعاد', 'جدولة']
+    },
+    {
+        intent: 'contact',
+        keywords: ['call', 'contact', 'phone', 'telephone', 'اتصل', 'اتصال', 'هاتف', 'تلفون', 'تليفون'],
+        weakKeywords: ['number', 'رقم']
+    },
+    {
+        intent: 'human',
+        keywords: ['human', 'agent', 'staff', 'receptionist', 'operator', 'real person', 'talk to someone',
+            'speak to someone', 'talk to a person', 'speak to a person', 'إنسان', 'موظف', 'وكيل', 'شخص حقيقي', 'تحدث مع']
+    }
+];
+
+// Patients who ask for a person or a booking mean it even when they also say hello
+export const DEFAULT_INTENT_PRIORITY: BotIntent[] = ['human', 'booking', 'services', 'hours', 'location', 'contact', 'greeting'];
+
+const WEAK_KEYWORD_WEIGHT = 0.6;
+const ARABIC_PREFIX_MATCH = 0.95; // "العنوان" for "عنوان"
+const TYPO_PENALTY = 0.15; // per edit
+const MIN_FUZZY_KEYWORD_LENGTH = 5; // shorter keywords are a typo away from too many words, e.g. "look" for "book"
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+// Words patients write as they are, which are never read as a typo of a keyword even when they are one
+// edit away, e.g. "stuff" for "staff", "yours" for "hours" or "looking" for "booking"
+const COMMON_WORDS = new Set([
+    'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'ask', 'at', 'back', 'be',
+    'because', 'been', 'before', 'but', 'by', 'can', 'come', 'could', 'day', 'did', 'do', 'does', 'doing', 'done',
+    'for', 'from', 'get', 'give', 'go', 'good', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i',
+    'if', 'in', 'is', 'it', 'just', 'know', 'like', 'look', 'looking', 'make', 'many', 'may', 'me', 'more', 'most',
+    'much', 'my', 'need', 'no', 'not', 'now', 'of', 'ok', 'okay', 'on', 'one', 'only', 'or', 'other', 'our', 'out',
+    'over', 'people', 'please', 'really', 'right', 'said', 'say', 'see', 'she', 'should', 'so', 'some', 'still',
+    'stuff', 'take', 'tell', 'than', 'thank', 'thanks', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+    'they', 'thing', 'things', 'think', 'this', 'those', 'to', 'too', 'took', 'up', 'us', 'very', 'want', 'was',
+    'way', 'we', 'well', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'would', 'yes', 'you',
+    'your', 'yours',
+    'feel', 'feeling', 'fall', 'fell', 'pain', 'post', 'posts', 'cast', 'lost', 'coats', 'cooking', 'contract',
+    'pride', 'prize', 'stiff', 'tours', 'pours', 'house', 'phones',
+    'في', 'من', 'على', 'عن', 'مع', 'هل', 'ما', 'لا', 'نعم', 'انا', 'انت', 'هذا', 'هذه', 'كان', 'كل', 'شي', 'شيء'
+]);
+
+// Article and conjunctions Arabic attaches to the front of a word, longest first
+const ARABIC_PREFIXES = ['وال', 'بال', 'فال', 'كال', 'لل', 'ال', 'و', 'ب', 'ف', 'ل'];
+
+// Helper function to read the priority order from an env value such as "booking,human", keeping the
+// default order for intents it leaves out
+export function parseIntentPriority(value: string | undefined): BotIntent[] {
+    const listed = (value || '')
+        .split(',')
+        .map((intent) => intent.trim())
+        .filter((intent): intent is BotIntent => DEFAULT_INTENT_PRIORITY.includes(intent as BotIntent));
+
+    return [...new Set([...listed, ...DEFAULT_INTENT_PRIORITY])];
+}
+
+// Helper function to list a word without each Arabic prefix it starts with, e.g. "بالعياده" -> "عياده"
+function stripArabicPrefixes(word: string): string[] {
+    return ARABIC_PREFIXES
+        .filter((prefix) => word.startsWith(prefix) && word.length - prefix.length >= 3)
+        .map((prefix) => word.slice(prefix.length));
+}
+
+// Matches messages against keyword lists by whole words, so "this" no longer reads as "hi", with
+// Arabic spelling variants folded and small typos forgiven
+export class KeywordIntentClassifier implements IntentClassifier {
+    private rules: { intent: BotIntent; keywords: { words: string[]; text: string; weight: number }[] }[];
+    private priority: BotIntent[];
+    private minConfidence: number;
+    private fuzzy: boolean;
+
+    constructor(options: KeywordClassifierOptions = {}) {
+        this.priority = options.priority ?? DEFAULT_INTENT_PRIORITY;
+        this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+        this.fuzzy = options.fuzzy ?? true;
+        this.rules = (options.rules ?? DEFAULT_INTENT_RULES).map((rule) => ({
+            intent: rule.intent,
+            keywords: [
+                ...rule.keywords.map((keyword) => ({ words: tokenize(keyword), text: keyword, weight: 1 })),
+                ...(rule.weakKeywords || []).map((keyword) => ({ words: tokenize(keyword), text: keyword, weight: WEAK_KEYWORD_WEIGHT }))
+            ].filter((keyword) => keyword.words.length > 0)
+        }));
+    }
+
+    // Every intent the message matches, by confidence and then priority
+    classify(text: string): IntentMatch[] {
+        const tokens = tokenize(text);
+        if (tokens.length === 0) {
+            return [];
+        }
+
+        const matches: IntentMatch[] = [];
+        for (const rule of this.rules) {
+            let best: IntentMatch | null = null;
+            for (const keyword of rule.keywords) {
+                const confidence = keyword.weight * this.matchKeyword(tokens, keyword.words, keyword.weight === 1);
+                if (confidence > (best?.confidence ?? 0)) {
+                    best = { intent: rule.intent, confidence: Math.round(confidence * 100) / 100, keyword: keyword.text };
+                }
+            }
+            if (best && best.confidence >= this.minConfidence) {
+                matches.push(best);
+            }
+        }
+
+        return matches.sort((a, b) => b.confidence - a.confidence || this.rank(a.intent) - this.rank(b.intent));
+    }
+
+    private rank(intent: BotIntent): number {
+        const index = this.priority.indexOf(intent);
+        return index === -1 ? this.priority.length : index;
+    }
+
+    // How well the message contains the keyword, from 0 (not at all) to 1 (word for word). Phrases
+    // must appear as consecutive words; single words may carry an Arabic prefix or a typo.
+    private matchKeyword(tokens: string[], words: string[], allowTypos: boolean): number {
+        if (words.length > 1) {
+            const phrase = words.join(' ');
+            return ` ${tokens.join(' ')} `.includes(` ${phrase} `) ? 1 : 0;
+        }
+
+        let best = 0;
+        for (const token of tokens) {
+            best = Math.max(best, this.matchWord(token, words[0], allowTypos));
+            if (best === 1) {
+                break;
+            }
+        }
+        return best;
+    }
+
+    private matchWord(token: string, keyword: string, allowTypos: boolean): number {
+        if (token === keyword) {
+            return 1;
+        }
+
+        const stripped = stripArabicPrefixes(token);
+        if (stripped.includes(keyword)) {
+            return ARABIC_PREFIX_MATCH;
+        }
+
+        // Short and everyday words are too easy to hit by accident, e.g. "look" for "book"
+        if (!this.fuzzy || !allowTypos || keyword.length < MIN_FUZZY_KEYWORD_LENGTH || token.length < 3 || COMMON_WORDS.has(token)) {
+            return 0;
+        }
+
+        const allowedEdits = keyword.length >= 8 ? 2 : 1;
+        const edits = Math.min(...[token, ...stripped].map((candidate) => editDistance(candidate, keyword)));
+        return edits <= allowedEdits ? 1 - TYPO_PENALTY * edits : 0;
+    }
+}
+
+let classifier: IntentClassifier = new KeywordIntentClassifier({
+    priority: parseIntentPriority(process.env.BOT_INTENT_PRIORITY)
+});
+
+// The classifier the bot uses
+export function getIntentClassifier(): IntentClassifier {
+    return classifier;
+}
+
+// Swap in another classifier, e.g. one backed by a language model
+export function setIntentClassifier(next: IntentClassifier) {
+    classifier = next;
+}
@@ -0,0 +1,102 @@
+// src/services/languageService.ts
+import { Patient, PrismaClient } from '@prisma/client';
+import { SUPPORTED_LANGUAGES } from '../i18n';
+import { Language } from '../types/bot';
+import { detectLanguage, parseLanguageSwitch } from '../utils/languageDetection';
+
+const prisma = new PrismaClient();
+
+export interface RememberedLanguage {
+    language: Language;
+    explicit: boolean; // chosen with a switch command rather than detected
+}
+
+// The clinic's own language, used until a patient's language is known
+export function getClinicLanguage(clinicPreference: string | null | undefined): Language {
+    return SUPPORTED_LANGUAGES.find((language) => clinicPreference?.startsWith(language)) ?? 'en';
+}
+
+// The language to answer in: a language the patient chose explicitly, then the language of this
+// message, then the last language detected for the patient, then the clinic's language
+export function chooseLanguage(
+    detected: Language | null,
+    remembered: RememberedLanguage | null,
+    clinicPreference: string | null | undefined
+): Language {
+    if (remembered?.explicit) {
+        return remembered.language;
+    }
+    return detected ?? remembered?.language ?? getClinicLanguage(clinicPreference);
+}
+
+class LanguageService {
+    // The language a patient was last seen using, or null for a new patient
+    async getRemembered(whatsappSessionId: string, patientNumber: string): Promise<RememberedLanguage | null> {
+        const preference = await prisma.patientPreference.findUnique({
+            where: {
+                whatsappSessionId_patientNumber: { whatsappSessionId, patientNumber }
+            }
+        });
+
+        return preference
+            ? { language: preference.language as Language, explicit: preference.languageExplicit }
+            : null;
+    }
+
+    // Decide the language for an incoming message and remember it for the patient's next messages.
+    // A switch command ("English", "عربي") becomes the patient's explicit choice, and a language
+    // staff set on the patient's record is kept until the patient switches.
+    async resolve(
+        whatsappSessionId: string,
+        patientNumber: string,
+        content: string,
+        clinicPreference: string | null | undefined,
+        patient?: Pick<Patient, 'id' | 'preferredLanguage' | 'languageExplicit'> | null
+    ): Promise<Language> {
+        const requested = parseLanguageSwitch(content);
+        if (requested) {
+            await this.remember(whatsappSessionId, patientNumber, { language: requested, explicit: true });
+            if (patient) {
+                await prisma.patient.update({
+                    where: { id: patient.id },
+                    data: { preferredLanguage: requested, languageExplicit: true }
+                });
+            }
+            return requested;
+        }
+
+        if (patient?.languageExplicit && patient.preferredLanguage) {
+            return patient.preferredLanguage as Language;
+        }
+
+        const remembered = await this.getRemembered(whatsappSessionId, patientNumber);
+        const detected = detectLanguage(content);
+
+        if (detected && !remembered?.explicit && remembered?.language !== detected) {
+            await this.remember(whatsappSessionId, patientNumber, { language: detected, explicit: false });
+        }
+
+        const language = chooseLanguage(detected, remembered, clinicPreference);
+
+        // A new patient's record starts with the language of their first message
+        if (patient && !patient.preferredLanguage) {
+            await prisma.patient.update({
+                where: { id: patient.id },
+                data: { preferredLanguage: language }
+            });
+        }
+        return language;
+    }
+
+    private async remember(whatsappSessionId: string, patientNumber: string, { language, explicit }: RememberedLanguage) {
+        await prisma.patientPreference.upsert({
+            where: {
+                whatsappSessionId_patientNumber: { whatsappSessionId, patientNumber }
+            },
+            create: { whatsappSessionId, patientNumber, language, languageExplicit: explicit },
+            update: { language, languageExplicit: explicit }
+        });
+    }
+}
+
+export default new LanguageService();
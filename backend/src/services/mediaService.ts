@@ -0,0 +1,52 @@
+// src/services/mediaService.ts
+import crypto from 'crypto';
+import { getMediaStore } from './mediaStore';
+import { getMessagingProvider, ProviderSession } from './messagingProvider';
+import { decryptField, encryptField, isEncryptionEnabled } from '../utils/fieldEncryption';
+import { getMediaExtension, MessageMetadata } from '../utils/inboundMessage';
+
+// WhatsApp allows documents of up to 100 MB; we keep what a clinic plausibly needs
+const MEDIA_MAX_BYTES = parseInt(process.env.MEDIA_MAX_BYTES || String(16 * 1024 * 1024), 10);
+
+interface StoreInboundParams {
+    session: ProviderSession & { id: string };
+    providerMessageId: string; // key.id of the received message
+    mediaMessage: Record<string, any>; // e.g. { imageMessage: { url, mediaKey, ... } }
+    metadata: MessageMetadata;
+}
+
+class MediaService {
+    // Download the media of a received message through the session's provider and keep it in the media store.
+    // Returns the key it was stored under. Files are encrypted like message contents when
+    // FIELD_ENCRYPTION_KEYS is set.
+    async storeInbound({ session, providerMessageId, mediaMessage, metadata }: StoreInboundParams): Promise<string> {
+        if (metadata.size !== undefined && metadata.size > MEDIA_MAX_BYTES) {
+            throw new Error(`Media of ${metadata.size} bytes exceeds the ${MEDIA_MAX_BYTES} byte limit`);
+        }
+
+        const data = await getMessagingProvider(session.provider).downloadMedia(session, {
+            providerMessageId,
+            mediaMessage,
+            maxBytes: MEDIA_MAX_BYTES
+        });
+
+        const mediaKey = `${session.id}/${crypto.randomUUID()}.${getMediaExtension(metadata.mimeType, metadata.fileName)}`;
+        await this.save(mediaKey, data);
+        return mediaKey;
+    }
+
+    async save(mediaKey: string, data: Buffer): Promise<void> {
+        const stored = isEncryptionEnabled() ? Buffer.from(encryptField(data.toString('base64'))) : data;
+        await getMediaStore().save(mediaKey, stored);
+    }
+
+    async read(mediaKey: string): Promise<Buffer> {
+        const stored = await getMediaStore().read(mediaKey);
+        // Encrypted files hold the "enc:..." text of their base64 contents
+        return stored.subarray(0, 4).toString() === 'enc:'
+            ? Buffer.from(decryptField(stored.toString()), 'base64')
+            : stored;
+    }
+}
+
+export default new MediaService();
@@ -0,0 +1,51 @@
+// src/services/mediaStore.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Where media files of messages are kept, by key such as "<whatsappSessionId>/<id>.jpg"
+export interface MediaStore {
+    save(key: string, data: Buffer): Promise<void>;
+    read(key: string): Promise<Buffer>;
+    remove(key: string): Promise<void>;
+}
+
+// Keeps media as files under a directory on the server's disk
+export class FileMediaStore implements MediaStore {
+    constructor(private readonly root: string) {}
+
+    async save(key: string, data: Buffer): Promise<void> {
+        const file = this.resolve(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+    }
+
+    read(key: string): Promise<Buffer> {
+        return fs.readFile(this.resolve(key));
+    }
+
+    async remove(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    // Keys come from our own code, but never let one point outside the root
+    private resolve(key: string): string {
+        const root = path.resolve(this.root);
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) {
+            throw new Error(`Invalid media key "${key}"`);
+        }
+        return file;
+    }
+}
+
+let store: MediaStore = new FileMediaStore(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'storage', 'media'));
+
+// The store media files are saved to
+export function getMediaStore(): MediaStore {
+    return store;
+}
+
+// Swap in another store, e.g. one backed by object storage
+export function setMediaStore(next: MediaStore) {
+    store = next;
+}
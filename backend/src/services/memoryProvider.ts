@@ -0,0 +1,108 @@
+// src/services/memoryProvider.ts
+import crypto from 'crypto';
+import type { WebhookPayload } from './webhookProcessor';
+import {
+    CreatedSession,
+    CreateSessionParams,
+    InboundMedia,
+    MessagingProvider,
+    ProviderCredentials,
+    ProviderSession,
+    WebhookRequest
+} from './messagingProvider';
+import { OutboundContent } from '../types/message';
+import { verifySignature } from '../utils/webhookSecurity';
+
+export interface SentMessage {
+    sessionId: string;
+    to: string;
+    content: OutboundContent;
+    providerMessageId: string;
+}
+
+// How many sent messages are kept; older ones are dropped
+const MAX_SENT_MESSAGES = 1000;
+
+// A provider that keeps sessions and sent messages in memory instead of talking to WhatsApp, for tests
+// and local development (MESSAGING_MEMORY_PROVIDER=true). Webhooks use WasenderAPI's format and signature,
+// so a patient can be played by posting events to /api/webhooks/memory/<session ID>.
+export class MemoryProvider implements MessagingProvider {
+    readonly name = 'memory';
+    readonly signatureHeader = 'X-Webhook-Signature';
+    readonly sent: SentMessage[] = [];
+    private statuses = new Map<string, string>();
+    private media = new Map<string, Buffer>();
+    private nextId = 1;
+
+    async createSession({ name }: CreateSessionParams): Promise<CreatedSession | null> {
+        const sessionId = `memory-${this.nextId++}`;
+        this.statuses.set(sessionId, 'connected');
+        console.log(`Created in-memory WhatsApp session ${sessionId} (${name})`);
+        return { sessionId, ...this.newCredentials(), status: 'connected' };
+    }
+
+    async connectSession(session: ProviderSession): Promise<string | null> {
+        this.statuses.set(session.sessionId, 'connected');
+        return 'connected';
+    }
+
+    async disconnectSession(session: ProviderSession): Promise<void> {
+        this.statuses.set(session.sessionId, 'disconnected');
+    }
+
+    async getSessionStatus(session: ProviderSession): Promise<string | null> {
+        return this.statuses.get(session.sessionId) ?? null;
+    }
+
+    async getQRCode(session: ProviderSession): Promise<string | null> {
+        return `memory-qr:${session.sessionId}`;
+    }
+
+    async rotateCredentials(): Promise<ProviderCredentials | null> {
+        return this.newCredentials();
+    }
+
+    async send(session: ProviderSession, to: string, content: OutboundContent): Promise<string | null> {
+        const providerMessageId = `memory-msg-${this.nextId++}`;
+        this.sent.push({ sessionId: session.sessionId, to, content, providerMessageId });
+        if (this.sent.length > MAX_SENT_MESSAGES) {
+            this.sent.splice(0, this.sent.length - MAX_SENT_MESSAGES);
+        }
+        return providerMessageId;
+    }
+
+    async downloadMedia(session: ProviderSession, { providerMessageId }: InboundMedia): Promise<Buffer> {
+        const data = this.media.get(providerMessageId);
+        if (!data) {
+            throw new Error(`No media for message ${providerMessageId}`);
+        }
+        return data;
+    }
+
+    verifyWebhook(session: ProviderSession, { rawBody, signature }: WebhookRequest): boolean {
+        return verifySignature(rawBody, signature, session.webhookSecret);
+    }
+
+    parseWebhook(body: any): WebhookPayload[] | null {
+        return body && body.event ? [body] : null;
+    }
+
+    // Make a file available as the media of a message the test is about to receive
+    addMedia(providerMessageId: string, data: Buffer) {
+        this.media.set(providerMessageId, data);
+    }
+
+    // Forget everything, e.g. between tests
+    reset() {
+        this.sent.length = 0;
+        this.statuses.clear();
+        this.media.clear();
+    }
+
+    private newCredentials(): ProviderCredentials {
+        return {
+            apiKey: crypto.randomBytes(24).toString('hex'),
+            webhookSecret: crypto.randomBytes(24).toString('hex')
+        };
+    }
+}
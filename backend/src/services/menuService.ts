@@ -0,0 +1,142 @@
+// src/services/menuService.ts
+import conversationStateService, { ConversationState } from './conversationStateService';
+import { botText, MessageKey, pickLocalized } from '../i18n';
+import { BotContext, BotIntent } from '../types/bot';
+import { formatMenuNumber, parseMenuNumber } from '../utils/menuNumbers';
+
+export const MENU_FLOW = 'menu';
+
+// What the bot should do with a number picked from a menu
+export type MenuSelection =
+    | { reply: string }
+    | { intent: BotIntent; serviceId?: string };
+
+// Main menu entries, in the order they are numbered
+const MAIN_MENU_OPTIONS: { intent: BotIntent; label: MessageKey }[] = [
+    { intent: 'location', label: 'menu.location' },
+    { intent: 'hours', label: 'menu.hours' },
+    { intent: 'services', label: 'menu.services' },
+    { intent: 'booking', label: 'menu.booking' },
+    { intent: 'contact', label: 'menu.contact' },
+    { intent: 'human', label: 'menu.human' },
+];
+
+function backToMainMenuLine(context: BotContext): string {
+    return botText(context, 'menu.backToMain', { number: formatMenuNumber(0, context.language) });
+}
+
+function invalidChoice(context: BotContext): string {
+    return botText(context, 'menu.invalidChoice', { zero: formatMenuNumber(0, context.language) });
+}
+
+class MenuService {
+    // Greeting followed by the numbered main menu
+    async showMainMenu(context: BotContext, { withGreeting = true } = {}): Promise<string> {
+        const { language, clinicSettings } = context;
+
+        const greeting = pickLocalized(clinicSettings, 'greetingMessage', language, { fallbackToEnglish: false })
+            || botText(context, 'greeting.default');
+
+        let menu = botText(context, 'menu.prompt');
+        MAIN_MENU_OPTIONS.forEach((option, index) => {
+            menu += `\n${formatMenuNumber(index + 1, language)}. ${botText(context, option.label)}`;
+        });
+
+        await this.setStep(context, 'main');
+
+        return withGreeting ? `${greeting}\n\n${menu}` : menu;
+    }
+
+    // Numbered price list; picking a number shows that service's details
+    async showServicesMenu(context: BotContext): Promise<string> {
+        const { language, clinicSettings } = context;
+        const services = clinicSettings.services || [];
+
+        if (services.length === 0) {
+            return botText(context, 'services.unavailable');
+        }
+
+        let text = botText(context, 'services.title');
+        services.forEach((service: any, index: number) => {
+            text += '\n' + botText(context, 'services.item', {
+                number: formatMenuNumber(index + 1, language),
+                name: pickLocalized(service, 'name', language) || '',
+                price: service.price,
+                currency: service.currency || clinicSettings.user.currency || 'USD',
+                duration: service.duration
+            });
+        });
+        text += `\n\n${botText(context, 'services.moreDetails')}`;
+        text += `\n${backToMainMenuLine(context)}`;
+
+        await this.setStep(context, 'services');
+
+        return text;
+    }
+
+    async showServiceDetails(context: BotContext, service: any): Promise<string> {
+        const { language, clinicSettings } = context;
+        const description = pickLocalized(service, 'description', language);
+        const currency = service.currency || clinicSettings.user.currency || 'USD';
+
+        let text = `🦷 ${pickLocalized(service, 'name', language)}`;
+        if (description) {
+            text += `\n${description}`;
+        }
+        text += `\n💰 ${service.price} ${currency}`;
+        text += `\n${botText(context, 'services.duration', { duration: service.duration })}`;
+        text += `\n\n${botText(context, 'services.bookThis', { number: formatMenuNumber(1, language) })}`;
+        text += `\n${backToMainMenuLine(context)}`;
+
+        await this.setStep(context, 'serviceDetails', { serviceId: service.id });
+
+        return text;
+    }
+
+    // Resolve a numbered reply against the menu the patient is looking at.
+    // Returns null when the reply is not a number, so normal keyword handling applies.
+    async handleSelection(context: BotContext, state: ConversationState, content: string): Promise<MenuSelection | null> {
+        const { clinicSettings } = context;
+        const choice = parseMenuNumber(content);
+
+        if (choice === null) {
+            return null;
+        }
+
+        if (choice === 0) {
+            return { reply: await this.showMainMenu(context, { withGreeting: false }) };
+        }
+
+        switch (state.step) {
+            case 'main': {
+                const option = MAIN_MENU_OPTIONS[choice - 1];
+                return option ? { intent: option.intent } : { reply: invalidChoice(context) };
+            }
+
+            case 'services': {
+                const service = (clinicSettings.services || [])[choice - 1];
+                return service
+                    ? { reply: await this.showServiceDetails(context, service) }
+                    : { reply: invalidChoice(context) };
+            }
+
+            case 'serviceDetails':
+                return choice === 1
+                    ? { intent: 'booking', serviceId: state.data.serviceId }
+                    : { reply: invalidChoice(context) };
+
+            default:
+                return { reply: await this.showMainMenu(context, { withGreeting: false }) };
+        }
+    }
+
+    private setStep(context: BotContext, step: string, data: Record<string, any> = {}) {
+        return conversationStateService.setFor(context, {
+            flow: MENU_FLOW,
+            step,
+            data
+        });
+    }
+}
+
+export default new MenuService();
@@ -0,0 +1,258 @@
+// src/services/messageService.ts
+import { PrismaClient, Prisma } from '@prisma/client';
+import handoffService from './handoffService';
+import { getMessagingProvider, ProviderSession } from './messagingProvider';
+import patientService from './patientService';
+import { OutboundContent } from '../types/message';
+import { toDigits, toJid } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+// Order of delivery statuses; a message only ever moves forward through them
+const STATUS_RANK: Record<string, number> = {
+    pending: 1,
+    sent: 2,
+    delivered: 3,
+    read: 4,
+    played: 5,
+};
+
+interface PageOptions {
+    limit: number;
+    before?: Date; // only messages older than this, for loading earlier pages of a thread
+    offset?: number; // for paging through conversations
+    needsAttention?: boolean; // only conversations handed off to staff
+}
+
+export interface ConversationSummary {
+    patientNumber: string; // the patient's JID
+    patient: { id: string; name: string | null; whatsappName: string | null } | null;
+    lastMessage: any;
+    unreadCount: number;
+    needsAttention: boolean; // handed off to staff, so the bot is not answering
+    handoffSince: string | null;
+}
+
+interface SendParams {
+    session: ProviderSession & { id: string; userId?: string; phoneNumber: string };
+    to: string; // the patient's JID or phone number
+    content: OutboundContent;
+    languageUsed?: string;
+    patientId?: string | null; // looked up from `to` and the session's clinic when omitted
+}
+
+type SendTextParams = Omit<SendParams, 'content'> & { text: string };
+
+// How outbound content is stored: Message.content holds its text or caption, Message.metadata the rest
+export function describeOutbound(content: OutboundContent): { text: string; metadata: Prisma.InputJsonObject | undefined } {
+    switch (content.type) {
+        case 'text':
+            return { text: content.text, metadata: undefined };
+        case 'image':
+            return { text: content.caption ?? '', metadata: { url: content.url } };
+        case 'document':
+            return { text: content.caption ?? '', metadata: { url: content.url, ...(content.fileName && { fileName: content.fileName }) } };
+        case 'location': {
+            const { latitude, longitude, name, address } = content;
+            return { text: name ?? address ?? '', metadata: { latitude, longitude, ...(name && { name }), ...(address && { address }) } };
+        }
+        case 'interactive':
+            return { text: content.text, metadata: { options: content.options.map((option) => ({ ...option })) } };
+    }
+}
+
+// Whether a status update should be applied. Webhooks can arrive out of order, so a late
+// 'delivered' must not overwrite 'read', and a message that was delivered cannot fail anymore.
+export function isStatusProgress(current: string | null, next: string): boolean {
+    if (next === 'failed') {
+        return !current || current === 'pending' || current === 'sent';
+    }
+    return (STATUS_RANK[next] ?? 0) > (STATUS_RANK[current ?? ''] ?? 0);
+}
+
+class MessageService {
+    // Record an outbound text message, send it through the session's provider and keep its message ID
+    async sendText({ text, ...params }: SendTextParams) {
+        return this.send({ ...params, content: { type: 'text', text } });
+    }
+
+    // Record an outbound message of any kind, send it through the session's provider and keep its message ID
+    async send({ session, to, content, languageUsed, patientId }: SendParams) {
+        if (patientId === undefined && session.userId) {
+            patientId = (await patientService.findByNumber(session.userId, to))?.id ?? null;
+        }
+
+        const { text, metadata } = describeOutbound(content);
+        const outbound = await prisma.message.create({
+            data: {
+                whatsappSessionId: session.id,
+                senderNumber: session.phoneNumber,
+                recipientNumber: toJid(to),
+                messageType: content.type,
+                content: text,
+                metadata,
+                direction: 'outbound',
+                status: 'pending',
+                languageUsed,
+                patientId
+            }
+        });
+
+        try {
+            // Recipient phone number without the JID suffix
+            const providerMessageId = await getMessagingProvider(session.provider).send(session, toDigits(to), content);
+            console.log('Message sent successfully:', providerMessageId);
+
+            return prisma.message.update({
+                where: { id: outbound.id },
+                data: { providerMessageId }
+            });
+        } catch (error) {
+            await prisma.message.update({
+                where: { id: outbound.id },
+                data: { status: 'failed' }
+            });
+            throw error;
+        }
+    }
+
+    // Apply a delivery status to the outbound message matching any of the provider's IDs.
+    // `whatsappMessageId` replaces the stored ID so later updates, which only carry key.id, still match.
+    async updateDeliveryStatus(
+        whatsappSessionId: string,
+        providerIds: unknown[],
+        status: string,
+        whatsappMessageId?: string
+    ) {
+        const ids = providerIds.filter((id) => id !== undefined && id !== null && id !== '').map(String);
+        if (ids.length === 0) {
+            return null;
+        }
+
+        const message = await prisma.message.findFirst({
+            where: {
+                whatsappSessionId,
+                direction: 'outbound',
+                providerMessageId: { in: ids }
+            }
+        });
+
+        if (!message) {
+            return null;
+        }
+
+        const applyStatus = isStatusProgress(message.status, status);
+        const replaceId = whatsappMessageId && message.providerMessageId !== whatsappMessageId;
+
+        if (!applyStatus && !replaceId) {
+            return message;
+        }
+
+        return prisma.message.update({
+            where: { id: message.id },
+            data: {
+                ...(applyStatus && { status }),
+                ...(replaceId && { providerMessageId: whatsappMessageId }),
+            }
+        });
+    }
+
+    // A page of the messages exchanged with a patient, oldest first. Pass the timestamp of the
+    // oldest message received as `before` to load the previous page.
+    async getTimeline(whatsappSessionId: string, patientNumber: string, { limit, before }: PageOptions) {
+        const jid = toJid(patientNumber);
+
+        const messages = await prisma.message.findMany({
+            where: {
+                whatsappSessionId,
+                OR: [
+                    { direction: 'inbound', senderNumber: jid },
+                    { direction: 'outbound', recipientNumber: jid }
+                ],
+                ...(before && { timestamp: { lt: before } }),
+            },
+            orderBy: { timestamp: 'desc' },
+            take: limit + 1
+        });
+
+        const hasMore = messages.length > limit;
+        const page = messages.slice(0, limit).reverse();
+
+        return {
+            messages: page,
+            nextBefore: hasMore && page.length > 0 ? page[0].timestamp.toISOString() : null
+        };
+    }
+
+    // Conversations of a session grouped by patient, most recently active first. One query picks the
+    // page of patients with their latest message, whoever wrote it; two more load those messages and
+    // the patients' unread counts.
+    async listConversations(
+        whatsappSessionId: string,
+        { limit, offset = 0, needsAttention }: PageOptions
+    ): Promise<ConversationSummary[]> {
+        const handoffs = await handoffService.listActive(whatsappSessionId);
+        if (needsAttention && handoffs.size === 0) {
+            return [];
+        }
+
+        const latest = await prisma.$queryRaw<{ id: string; patientNumber: string }[]>`
+            SELECT "id", "patientNumber" FROM (
+                SELECT DISTINCT ON ("patientNumber") "id", "patientNumber", "timestamp"
+                FROM (
+                    SELECT "id", "timestamp",
+                        CASE WHEN "direction" = 'inbound' THEN "senderNumber" ELSE "recipientNumber" END AS "patientNumber"
+                    FROM "Message"
+                    WHERE "whatsappSessionId" = ${whatsappSessionId}
+                ) AS "messages"
+                ${needsAttention ? Prisma.sql`WHERE "patientNumber" IN (${Prisma.join([...handoffs.keys()])})` : Prisma.empty}
+                ORDER BY "patientNumber", "timestamp" DESC, "id" DESC
+            ) AS "latest"
+            ORDER BY "timestamp" DESC, "patientNumber"
+            LIMIT ${limit} OFFSET ${offset}`;
+
+        const patientNumbers = latest.map(({ patientNumber }) => patientNumber);
+        const [messages, unread] = await Promise.all([
+            prisma.message.findMany({
+                where: { id: { in: latest.map(({ id }) => id) } },
+                include: { patient: { select: { id: true, name: true, whatsappName: true } } }
+            }),
+            prisma.message.groupBy({
+                by: ['senderNumber'],
+                where: { whatsappSessionId, direction: 'inbound', readAt: null, senderNumber: { in: patientNumbers } },
+                _count: { _all: true }
+            })
+        ]);
+
+        const messagesById = new Map(messages.map((message) => [message.id, message]));
+        const unreadCounts = new Map(unread.map((group) => [group.senderNumber, group._count._all]));
+
+        return latest.map(({ id, patientNumber }) => {
+            const lastMessage = messagesById.get(id) ?? null;
+            return {
+                patientNumber,
+                patient: lastMessage?.patient ?? null,
+                lastMessage,
+                unreadCount: unreadCounts.get(patientNumber) ?? 0,
+                needsAttention: handoffs.has(patientNumber),
+                handoffSince: handoffs.get(patientNumber)?.data.since ?? null
+            };
+        });
+    }
+
+    // Mark everything a patient wrote as read by staff
+    async markConversationRead(whatsappSessionId: string, patientNumber: string) {
+        await prisma.message.updateMany({
+            where: {
+                whatsappSessionId,
+                direction: 'inbound',
+                senderNumber: toJid(patientNumber),
+                readAt: null
+            },
+            data: { readAt: new Date() }
+        });
+    }
+}
+
+export default new MessageService();
@@ -0,0 +1,130 @@
+// src/services/messagingProvider.ts
+import axios from 'axios';
+import type { WebhookPayload } from './webhookProcessor';
+import { OutboundContent } from '../types/message';
+import { CloudApiProvider } from './cloudApiProvider';
+import { MemoryProvider } from './memoryProvider';
+import { WasenderProvider } from './wasenderProvider';
+
+const MEDIA_DOWNLOAD_TIMEOUT_MS = 30000;
+
+// What a provider needs to act for a session, as stored on WhatsappSession
+export interface ProviderSession {
+    provider: string;
+    sessionId: string; // the provider's ID of the session
+    apiKey: string;
+    webhookSecret: string;
+}
+
+export interface CreateSessionParams {
+    name: string;
+    phoneNumber: string;
+    settings: Record<string, any>; // provider-specific options from the request, e.g. WasenderAPI's webhook_url
+}
+
+// A session created with the provider, to be stored on WhatsappSession
+export interface CreatedSession {
+    sessionId: string;
+    apiKey: string;
+    webhookSecret: string;
+    status: string;
+}
+
+export interface ProviderCredentials {
+    apiKey: string;
+    webhookSecret: string;
+}
+
+// The media part of a received message, as parsed by parseInboundMessage
+export interface InboundMedia {
+    providerMessageId: string;
+    mediaMessage: Record<string, any>; // e.g. { imageMessage: { url, mediaKey, ... } }
+    maxBytes: number;
+}
+
+export interface WebhookRequest {
+    rawBody: Buffer | string; // the exact bytes received, not re-serialized JSON
+    signature: string; // the value of the provider's signature header
+}
+
+// A WhatsApp gateway. Webhooks are translated into the events webhookProcessor handles, which
+// follow WasenderAPI's format (messages.received, message.sent, messages.update).
+// Methods resolve to null when the provider reports a failure and throw on transport errors.
+export interface MessagingProvider {
+    readonly name: string;
+    readonly signatureHeader: string; // the header webhooks carry their signature in
+
+    createSession(params: CreateSessionParams): Promise<CreatedSession | null>;
+    connectSession(session: ProviderSession): Promise<string | null>; // the new status
+    disconnectSession(session: ProviderSession): Promise<void>;
+    getSessionStatus(session: ProviderSession): Promise<string | null>;
+    // Only providers paired by scanning a QR code in WhatsApp have one
+    getQRCode?(session: ProviderSession): Promise<string | null>;
+    // Only providers that issue session credentials themselves can rotate them
+    rotateCredentials?(session: ProviderSession): Promise<ProviderCredentials | null>;
+
+    // Send content to a phone number (digits only); resolves to the provider's message ID when it returns one
+    send(session: ProviderSession, to: string, content: OutboundContent): Promise<string | null>;
+    downloadMedia(session: ProviderSession, media: InboundMedia): Promise<Buffer>;
+
+    verifyWebhook(session: ProviderSession, request: WebhookRequest): boolean;
+    // The events of a webhook body, or null when it is not a webhook of this provider
+    parseWebhook(body: any): WebhookPayload[] | null;
+    // Answer the provider's check of a newly registered webhook URL: the challenge to echo, or null to refuse
+    verifySubscription?(query: Record<string, unknown>): string | null;
+}
+
+let providers: Map<string, MessagingProvider> | null = null;
+
+// Messages sent through the in-memory provider go nowhere, so it is only offered in tests and when
+// enabled with MESSAGING_MEMORY_PROVIDER=true for local development
+function isMemoryProviderEnabled(): boolean {
+    return process.env.NODE_ENV === 'test' || process.env.MESSAGING_MEMORY_PROVIDER === 'true';
+}
+
+// The built-in providers are created on first use, as the adapters import helpers from this module
+function registry(): Map<string, MessagingProvider> {
+    if (!providers) {
+        const builtIn: MessagingProvider[] = [new WasenderProvider(), new CloudApiProvider()];
+        if (isMemoryProviderEnabled()) {
+            builtIn.push(new MemoryProvider());
+        }
+        providers = new Map(builtIn.map((provider) => [provider.name, provider]));
+    }
+    return providers;
+}
+
+// The provider registered under a name, e.g. a session's `provider`, or undefined if there is none
+export function findMessagingProvider(name: string): MessagingProvider | undefined {
+    return registry().get(name);
+}
+
+// The provider of a session. Sessions are only created with registered providers, so a missing one is a bug.
+export function getMessagingProvider(name: string): MessagingProvider {
+    const provider = registry().get(name);
+    if (!provider) {
+        throw new Error(`Unknown messaging provider "${name}"`);
+    }
+    return provider;
+}
+
+// Register another provider, or replace a built-in one, e.g. with a fake in tests
+export function setMessagingProvider(provider: MessagingProvider) {
+    registry().set(provider.name, provider);
+}
+
+// The provider new sessions use unless the request picks one
+export function getDefaultProviderName(): string {
+    return process.env.MESSAGING_PROVIDER || 'wasender';
+}
+
+// Download a media file within the size limit, for providers that hand out a URL
+export async function fetchMediaFile(url: string, maxBytes: number, headers?: Record<string, string>): Promise<Buffer> {
+    const response = await axios.get(url, {
+        headers,
+        responseType: 'arraybuffer',
+        timeout: MEDIA_DOWNLOAD_TIMEOUT_MS,
+        maxContentLength: maxBytes
+    });
+    return Buffer.from(response.data);
+}
@@ -0,0 +1,208 @@
+// src/services/patientService.ts
+import { Patient, PrismaClient, Prisma } from '@prisma/client';
+import { blindIndex } from '../utils/fieldEncryption';
+import { toE164 } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+interface InboundContact {
+    whatsappName?: string | null; // the pushName of the message
+    at?: Date;
+}
+
+// Patient fields filled in from messages and bookings
+type PatientDetails = Pick<Prisma.PatientUncheckedCreateInput, 'name' | 'whatsappName' | 'lastMessageAt'>;
+
+// How many patients a name search decrypts at a time
+const SEARCH_BATCH_SIZE = 500;
+
+const LIST_ORDER: Prisma.PatientOrderByWithRelationInput[] = [
+    { lastMessageAt: { sort: 'desc', nulls: 'last' } },
+    { createdAt: 'desc' },
+    { id: 'asc' }
+];
+
+interface ListOptions {
+    search?: string; // part of a name or phone number
+    limit: number;
+    offset?: number;
+}
+
+class PatientService {
+    // The patient with a phone number or JID, matching merged numbers too
+    async findByNumber(userId: string, numberOrJid: string) {
+        const phone = toE164(numberOrJid);
+        if (!phone) {
+            return null;
+        }
+
+        // Numbers are encrypted, so they are matched by their blind index
+        const phoneHash = blindIndex(phone);
+        const patient = await prisma.patient.findFirst({
+            where: {
+                userId,
+                OR: [{ phoneHash }, { alternatePhoneHashes: { has: phoneHash } }]
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+        if (patient) {
+            return patient;
+        }
+
+        // Patients created before the index have none until `npm run reencrypt`, and still have their
+        // number in plain text. The client refuses filters on encrypted columns, so they are found directly.
+        const [legacy] = await prisma.$queryRaw<{ id: string }[]>`
+            SELECT id FROM "Patient"
+            WHERE "userId" = ${userId} AND "phoneHash" IS NULL AND phone = ${phone}
+            ORDER BY "createdAt" ASC
+            LIMIT 1
+        `;
+        return legacy ? prisma.patient.findUnique({ where: { id: legacy.id } }) : null;
+    }
+
+    // Create or refresh the patient behind an inbound WhatsApp message. Returns null for senders
+    // that are not phone numbers, e.g. groups. The patient's language is left to languageService.resolve,
+    // so a language staff set is not overwritten.
+    async upsertFromInbound(userId: string, jid: string, { whatsappName, at = new Date() }: InboundContact = {}) {
+        if (!jid.endsWith('@s.whatsapp.net')) {
+            return null;
+        }
+
+        const details: PatientDetails = {
+            ...(whatsappName && { whatsappName }),
+            lastMessageAt: at
+        };
+        return this.upsert(userId, jid, details, details);
+    }
+
+    // The patient with a phone number, created if needed, e.g. when booking. A name is only filled
+    // in when the patient has none, so staff edits are kept.
+    async findOrCreate(userId: string, phoneNumber: string, { name }: { name?: string | null } = {}) {
+        const patient = await this.upsert(userId, phoneNumber, { name }, {});
+        if (patient && name && !patient.name) {
+            return prisma.patient.update({
+                where: { id: patient.id },
+                data: { name }
+            });
+        }
+        return patient;
+    }
+
+    // A page of a clinic's patients, most recently active first. A search for a phone number finds the
+    // patient with that exact number; other searches match part of a name.
+    async list(userId: string, { search, limit, offset = 0 }: ListOptions) {
+        const term = search?.trim();
+        if (!term) {
+            const [patients, total] = await Promise.all([
+                prisma.patient.findMany({ where: { userId }, orderBy: LIST_ORDER, skip: offset, take: limit }),
+                prisma.patient.count({ where: { userId } })
+            ]);
+            return { patients, total };
+        }
+
+        if (/\d/.test(term)) {
+            const patient = await this.findByNumber(userId, term);
+            return { patients: patient && offset === 0 ? [patient] : [], total: patient ? 1 : 0 };
+        }
+
+        return this.searchByName(userId, term.toLocaleLowerCase(), limit, offset);
+    }
+    // Merge a duplicate patient into another: appointments and messages move over, details the
+    // target lacks are copied, and the duplicate is deleted. Returns null if either patient is not
+    // one of the clinic's.
+    async merge(userId: string, targetId: string, sourceId: string) {
+        const [target, source] = await Promise.all([
+            prisma.patient.findFirst({ where: { id: targetId, userId } }),
+            prisma.patient.findFirst({ where: { id: sourceId, userId } })
+        ]);
+
+        if (!target || !source) {
+            return null;
+        }
+
+        const notes = [target.notes, source.notes].filter(Boolean).join('\n\n');
+        const lastMessageAt = [target.lastMessageAt, source.lastMessageAt]
+            .filter((date): date is Date => date !== null)
+            .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+        const alternatePhones = [...new Set([...target.alternatePhones, source.phone, ...source.alternatePhones])];
+        // A language staff or the patient chose wins over a detected one
+        const language = (source.languageExplicit && !target.languageExplicit) || !target.preferredLanguage ? source : target;
+
+        const [, , , merged] = await prisma.$transaction([
+            prisma.appointment.updateMany({ where: { patientId: source.id }, data: { patientId: target.id } }),
+            prisma.message.updateMany({ where: { patientId: source.id }, data: { patientId: target.id } }),
+            prisma.patient.delete({ where: { id: source.id } }),
+            prisma.patient.update({
+                where: { id: target.id },
+                data: {
+                    name: target.name ?? source.name,
+                    whatsappName: target.whatsappName ?? source.whatsappName,
+                    preferredLanguage: language.preferredLanguage,
+                    languageExplicit: language.languageExplicit,
+                    // Keep the duplicate's numbers so its next message finds the merged patient
+                    alternatePhones,
+                    alternatePhoneHashes: alternatePhones.map(blindIndex),
+                    ...(notes && { notes }),
+                    // A patient who opted out under either record stays opted out
+                    reminderConsent: target.reminderConsent && source.reminderConsent,
+                    marketingConsent: target.marketingConsent && source.marketingConsent,
+                    lastMessageAt
+                }
+            })
+        ]);
+
+        return merged;
+    }
+
+    // Names are encrypted, so they are matched after decrypting the clinic's patients in batches
+    private async searchByName(userId: string, term: string, limit: number, offset: number) {
+        const patients: Patient[] = [];
+        let total = 0;
+
+        for (let skip = 0; ; skip += SEARCH_BATCH_SIZE) {
+            const batch = await prisma.patient.findMany({ where: { userId }, orderBy: LIST_ORDER, skip, take: SEARCH_BATCH_SIZE });
+
+            for (const patient of batch) {
+                if ([patient.name, patient.whatsappName].some((name) => name?.toLocaleLowerCase().includes(term))) {
+                    if (total >= offset && patients.length < limit) {
+                        patients.push(patient);
+                    }
+                    total++;
+                }
+            }
+
+            if (batch.length < SEARCH_BATCH_SIZE) {
+                return { patients, total };
+            }
+        }
+    }
+
+    // Update the patient with a number or create it. The unique phone hash constraint settles two
+    // messages from a new patient arriving at once: the loser updates the winner's row.
+    private async upsert(userId: string, numberOrJid: string, create: PatientDetails, update: PatientDetails): Promise<Patient | null> {
+        const phone = toE164(numberOrJid);
+        if (!phone) {
+            return null;
+        }
+
+        const existing = await this.findByNumber(userId, phone);
+        if (existing) {
+            return Object.keys(update).length > 0
+                ? prisma.patient.update({ where: { id: existing.id }, data: update })
+                : existing;
+        }
+
+        try {
+            return await prisma.patient.create({ data: { ...create, userId, phone, phoneHash: blindIndex(phone) } });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return this.upsert(userId, phone, create, update);
+            }
+            throw error;
+        }
+    }
+}
+
+export default new PatientService();
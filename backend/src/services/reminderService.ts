@@ -0,0 +1,259 @@
+// src/services/reminderService.ts
+import { PrismaClient, Prisma } from '@prisma/client';
+import bookingService, { BOOKING_FLOW } from './bookingService';
+import conversationStateService, { ConversationState } from './conversationStateService';
+import { HANDOFF_FLOW } from './handoffService';
+import languageService, { getClinicLanguage } from './languageService';
+import messageService from './messageService';
+import { botText, pickLocalized, translate } from '../i18n';
+import { BotContext, Language } from '../types/bot';
+import { formatMenuNumber, parseMenuNumber } from '../utils/menuNumbers';
+import { toE164, toJid } from '../utils/phone';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+export const REMINDER_FLOW = 'reminder';
+
+// How long before an appointment reminders go out, e.g. "24,2" for a day before and two hours before
+const REMINDER_OFFSETS_MINUTES = (process.env.APPOINTMENT_REMINDER_HOURS || '24,2')
+    .split(',')
+    .map((hours) => Math.round(parseFloat(hours) * 60))
+    .filter((minutes) => minutes > 0);
+const POLL_INTERVAL_MS = 60 * 1000;
+const ACTIVE_SESSION_STATUSES = ['connected', 'active'];
+
+// The reminder due for an appointment at `now`: the closest offset whose time has come. Offsets that
+// were skipped, e.g. the 24h reminder of an appointment booked 10 hours ahead, are not sent late.
+export function getDueReminderOffset(appointmentDate: Date, now: Date, offsetsMinutes: number[] = REMINDER_OFFSETS_MINUTES): number | null {
+    const minutesLeft = (appointmentDate.getTime() - now.getTime()) / 60000;
+    if (minutesLeft <= 0) {
+        return null;
+    }
+
+    const due = offsetsMinutes.filter((offset) => minutesLeft <= offset);
+    return due.length > 0 ? Math.min(...due) : null;
+}
+
+class ReminderService {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    // Check for due reminders in the background; called once when the server starts
+    start(intervalMs: number = POLL_INTERVAL_MS) {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.tick(), intervalMs);
+        this.tick();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Send the reminders that are due at `now`. Tests pass their own clock. Returns how many were sent.
+    async processDue(now: Date = new Date()): Promise<number> {
+        if (REMINDER_OFFSETS_MINUTES.length === 0) {
+            return 0;
+        }
+
+        // Each offset is due for the appointments between it and the next shorter one; those that
+        // already have that reminder are left out, so claimed reminders are not tried again every poll
+        const offsets = [...REMINDER_OFFSETS_MINUTES].sort((a, b) => a - b);
+        const dueWindows: Prisma.AppointmentWhereInput[] = offsets.map((offsetMinutes, index) => ({
+            appointmentDate: {
+                gt: new Date(now.getTime() + (offsets[index - 1] ?? 0) * 60000),
+                lte: new Date(now.getTime() + offsetMinutes * 60000)
+            },
+            reminders: { none: { offsetMinutes } }
+        }));
+
+        const appointments = await prisma.appointment.findMany({
+            where: {
+                status: { in: ['scheduled', 'confirmed'] },
+                AND: [
+                    { OR: dueWindows },
+                    // Patients who opted out of reminders are skipped
+                    { OR: [{ patientId: null }, { patient: { reminderConsent: true } }] }
+                ]
+            },
+            include: {
+                service: true,
+                patient: true,
+                user: { include: { clinicSettings: true } }
+            },
+            orderBy: { appointmentDate: 'asc' }
+        });
+
+        let sent = 0;
+        for (const appointment of appointments) {
+            const offsetMinutes = getDueReminderOffset(appointment.appointmentDate, now);
+            if (offsetMinutes === null) {
+                continue;
+            }
+
+            try {
+                if (await this.sendReminder(appointment, offsetMinutes, now)) {
+                    sent++;
+                }
+            } catch (error) {
+                console.error(`Error sending reminder for appointment ${appointment.id}:`, error);
+            }
+        }
+
+        return sent;
+    }
+
+    // Handle "1" / "2" sent in reply to a reminder. Returns null for other messages, so the bot
+    // answers them normally.
+    async handleReply(context: BotContext, state: ConversationState, content: string): Promise<string | null> {
+        const { clinicSettings, simulation } = context;
+        const choice = parseMenuNumber(content);
+
+        if (choice !== 1 && choice !== 2) {
+            return null;
+        }
+
+        await conversationStateService.clearFor(context);
+
+        const appointment = await prisma.appointment.findFirst({
+            where: {
+                id: state.data.appointmentId,
+                userId: clinicSettings.userId,
+                status: { in: ['scheduled', 'confirmed'] }
+            }
+        });
+
+        if (!appointment) {
+            return botText(context, 'reminder.inactive');
+        }
+
+        const status = choice === 1 ? 'confirmed' : 'cancelled';
+        if (simulation) {
+            simulation.actions.push({ action: 'appointment.update', data: { appointmentId: appointment.id, status } });
+        } else {
+            await prisma.appointment.update({
+                where: { id: appointment.id },
+                data: { status }
+            });
+        }
+
+        return botText(context, choice === 1 ? 'reminder.confirmed' : 'reminder.cancelled');
+    }
+
+    private tick() {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        this.processDue()
+            .catch((error) => console.error('Error processing appointment reminders:', error))
+            .finally(() => {
+                this.running = false;
+            });
+    }
+
+    private async sendReminder(appointment: any, offsetMinutes: number, now: Date): Promise<boolean> {
+        // Numbers typed in by staff may lack a country code or hold a typo; those are left unsent
+        // rather than messaged to whoever has the number they happen to spell
+        const phone = toE164(appointment.patientPhone);
+        if (!phone) {
+            console.error(`Skipping reminder for appointment ${appointment.id}: its phone number is not a valid international number`);
+            return false;
+        }
+
+        const session = await prisma.whatsappSession.findFirst({
+            where: {
+                userId: appointment.userId,
+                status: { in: ACTIVE_SESSION_STATUSES }
+            },
+            orderBy: { updatedAt: 'desc' }
+        });
+
+        if (!session) {
+            return false;
+        }
+
+        // Claim the reminder first, so concurrent schedulers and restarts never send it twice
+        let reminder;
+        try {
+            reminder = await prisma.appointmentReminder.create({
+                data: { appointmentId: appointment.id, offsetMinutes }
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return false;
+            }
+            throw error;
+        }
+
+        // Write in the language staff or the patient chose, then the one the patient last used with
+        // the clinic, then the one on their patient record
+        const patientNumber = toJid(phone);
+        const remembered = await languageService.getRemembered(session.id, patientNumber);
+        const chosen = appointment.patient?.languageExplicit ? appointment.patient.preferredLanguage as Language | null : null;
+        const language: Language = chosen
+            ?? remembered?.language
+            ?? (appointment.patient?.preferredLanguage as Language | undefined)
+            ?? getClinicLanguage(appointment.user.languagePreference);
+
+        let message;
+        try {
+            message = await messageService.sendText({
+                session,
+                to: phone,
+                text: this.buildReminderText(appointment, language),
+                languageUsed: language,
+                patientId: appointment.patientId
+            });
+        } catch (error) {
+            // Release the claim so the next run retries while the reminder is still due
+            await prisma.appointmentReminder.delete({ where: { id: reminder.id } });
+            throw error;
+        }
+
+        await prisma.appointmentReminder.update({
+            where: { id: reminder.id },
+            data: { messageId: message.id }
+        });
+
+        await this.awaitReply(session.id, patientNumber, appointment, now);
+
+        return true;
+    }
+
+    // Route the patient's next "1" or "2" to this appointment, unless staff or a booking have the conversation
+    private async awaitReply(whatsappSessionId: string, senderNumber: string, appointment: any, now: Date) {
+        const current = await conversationStateService.get(whatsappSessionId, senderNumber);
+        if (current?.flow === HANDOFF_FLOW || current?.flow === BOOKING_FLOW) {
+            return;
+        }
+
+        await conversationStateService.set(whatsappSessionId, senderNumber, {
+            flow: REMINDER_FLOW,
+            step: 'awaitingReply',
+            data: { appointmentId: appointment.id },
+            ttlMinutes: Math.ceil((appointment.appointmentDate.getTime() - now.getTime()) / 60000)
+        });
+    }
+
+    private buildReminderText(appointment: any, language: Language): string {
+        const overrides = appointment.user.clinicSettings?.messageOverrides;
+
+        const text = translate('reminder.text', language, {
+            service: pickLocalized(appointment.service, 'name', language) || '',
+            when: bookingService.formatSlot(appointment.appointmentDate, language, appointment.user.clinicSettings?.timezone)
+        }, overrides);
+        const confirm = translate('reminder.confirmOption', language, { number: formatMenuNumber(1, language) }, overrides);
+        const cancel = translate('reminder.cancelOption', language, { number: formatMenuNumber(2, language) }, overrides);
+
+        return `${text}\n\n${confirm}\n${cancel}`;
+    }
+}
+
+export default new ReminderService();
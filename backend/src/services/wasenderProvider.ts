@@ -0,0 +1,136 @@
+// src/services/wasenderProvider.ts
+import type { WebhookPayload } from './webhookProcessor';
+import {
+    CreatedSession,
+    CreateSessionParams,
+    fetchMediaFile,
+    InboundMedia,
+    MessagingProvider,
+    ProviderCredentials,
+    ProviderSession,
+    WebhookRequest
+} from './messagingProvider';
+import wasenderService from './wasenderService';
+import { OutboundContent } from '../types/message';
+
+// WasenderAPI numbers its sessions; account-level calls use the token in ACCESS_TOKEN_API
+function toSessionNumber(session: ProviderSession): number {
+    return parseInt(session.sessionId, 10);
+}
+
+// WasenderAPI, which links a WhatsApp number by QR code. Its webhooks are already in the format
+// webhookProcessor handles.
+export class WasenderProvider implements MessagingProvider {
+    readonly name = 'wasender';
+    readonly signatureHeader = 'X-Webhook-Signature';
+
+    async createSession({ name, phoneNumber, settings }: CreateSessionParams): Promise<CreatedSession | null> {
+        const {
+            account_protection,
+            log_messages,
+            webhook_url,
+            webhook_enabled,
+            webhook_events,
+            read_incoming_messages,
+            auto_reject_calls } = settings;
+
+        const response = await wasenderService.createSession(process.env.ACCESS_TOKEN_API, {
+            name,
+            phone_number: phoneNumber,
+            account_protection: account_protection ?? true,
+            log_messages: log_messages ?? true,
+            ...(webhook_url && { webhook_url }),
+            ...(webhook_enabled !== undefined && { webhook_enabled }),
+            ...(webhook_events && { webhook_events }),
+            ...(read_incoming_messages !== undefined && { read_incoming_messages }),
+            ...(auto_reject_calls !== undefined && { auto_reject_calls }),
+        });
+
+        if (!response || !response.success || !response.data) {
+            return null;
+        }
+
+        const { id, api_key, webhook_secret, status } = response.data;
+        return { sessionId: id.toString(), apiKey: api_key, webhookSecret: webhook_secret, status: status || 'pending' };
+    }
+
+    async connectSession(session: ProviderSession): Promise<string | null> {
+        const response = await wasenderService.connectSession(session.apiKey, { whatsappSessionId: toSessionNumber(session) });
+        return response?.success ? response.data?.status || 'connecting' : null;
+    }
+
+    async disconnectSession(session: ProviderSession): Promise<void> {
+        await wasenderService.disconnectSession(session.apiKey, { whatsappSessionId: toSessionNumber(session) });
+    }
+
+    async getSessionStatus(session: ProviderSession): Promise<string | null> {
+        const response = await wasenderService.getSessionStatus(session.apiKey, toSessionNumber(session));
+        return response?.status ?? null;
+    }
+
+    async getQRCode(session: ProviderSession): Promise<string | null> {
+        const response = await wasenderService.getQRCode(session.apiKey, { whatsappSessionId: toSessionNumber(session) });
+        return response?.success ? response.data?.qrCode ?? null : null;
+    }
+
+    // Issue a new API key; the previous key stops working at once
+    async rotateCredentials(session: ProviderSession): Promise<ProviderCredentials | null> {
+        const whatsappSessionId = toSessionNumber(session);
+        const response = await wasenderService.regenerateApiKey(process.env.ACCESS_TOKEN_API, { whatsappSessionId });
+        const apiKey = response?.api_key ?? response?.data?.api_key;
+
+        if (!response || !response.success || !apiKey) {
+            return null;
+        }
+
+        // The old key is already revoked, so a failure to read the secret must not lose the new key
+        let webhookSecret = session.webhookSecret;
+        try {
+            const details = await wasenderService.getSessionDetails(process.env.ACCESS_TOKEN_API, { whatsappSessionId });
+            webhookSecret = details?.data?.webhook_secret || webhookSecret;
+        } catch (error) {
+            console.error('Keeping the current webhook secret after failing to fetch session details:', error);
+        }
+
+        return { apiKey, webhookSecret };
+    }
+
+    async send(session: ProviderSession, to: string, content: OutboundContent): Promise<string | null> {
+        const response = await this.deliver(session.apiKey, to, content);
+        const messageId = response?.data?.msgId ?? response?.data?.key?.id;
+        return messageId !== undefined && messageId !== null ? String(messageId) : null;
+    }
+
+    // WasenderAPI decrypts the media of a received message into a temporary public URL
+    async downloadMedia(session: ProviderSession, { providerMessageId, mediaMessage, maxBytes }: InboundMedia): Promise<Buffer> {
+        const url = await wasenderService.decryptMedia(session.apiKey, {
+            key: { id: providerMessageId },
+            message: mediaMessage
+        });
+        return fetchMediaFile(url, maxBytes);
+    }
+
+    verifyWebhook(session: ProviderSession, { rawBody, signature }: WebhookRequest): boolean {
+        return wasenderService.verifyWebhookSignature({ rawBody, signature, secret: session.webhookSecret });
+    }
+
+    parseWebhook(body: any): WebhookPayload[] | null {
+        return body && body.event ? [body] : null;
+    }
+
+    // Helper function to send content with the matching WasenderAPI call
+    private deliver(apiKey: string, to: string, content: OutboundContent) {
+        switch (content.type) {
+            case 'text':
+                return wasenderService.sendMessage(apiKey, { to, text: content.text });
+            case 'image':
+                return wasenderService.sendImage(apiKey, { to, imageUrl: content.url, caption: content.caption });
+            case 'document':
+                return wasenderService.sendDocument(apiKey, { to, documentUrl: content.url, fileName: content.fileName, caption: content.caption });
+            case 'location':
+                return wasenderService.sendLocation(apiKey, { to, ...content });
+            case 'interactive':
+                return wasenderService.sendInteractive(apiKey, { to, text: content.text, options: content.options });
+        }
+    }
+}
@@ -1,5 +1,7 @@
-
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { InteractiveOption } from '../types/message';
+import { formatOptionsAsText } from '../utils/outboundContent';
+import { verifySignature } from '../utils/webhookSecurity';
 
 interface CreateSessionPayload {
     name: string;
@@ -13,9 +15,42 @@ interface CreateSessionPayload {
     auto_reject_calls?: boolean;
 }
 
-interface SendMessagePayload {
+// Body of POST /send-message: text, or a file or location with an optional caption in `text`
+type SendMessagePayload = {
     to: string; // Recipient phone number in E.164 format
+    text?: string;
+} & (
+    | { text: string }
+    | { imageUrl: string }
+    | { documentUrl: string; fileName?: string }
+    | { location: { latitude: number; longitude: number; name?: string; address?: string } }
+);
+
+interface SendImageParams {
+    to: string;
+    imageUrl: string; // a public URL WasenderAPI downloads the image from
+    caption?: string;
+}
+
+interface SendDocumentParams {
+    to: string;
+    documentUrl: string; // a public URL WasenderAPI downloads the document from
+    fileName?: string; // shown to the patient instead of the URL's file name
+    caption?: string;
+}
+
+interface SendLocationParams {
+    to: string;
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+}
+
+interface SendInteractiveParams {
+    to: string;
     text: string;
+    options: InteractiveOption[];
 }
 
 interface ConnectSessionParams {
@@ -26,111 +61,264 @@ interface GetQRCodeParams {
     whatsappSessionId: number; // ID of the WhatsApp session
 }
 
+interface SessionDetailsParams {
+    whatsappSessionId: number; // ID of the WhatsApp session
+}
+
+interface RegenerateApiKeyParams {
+    whatsappSessionId: number; // ID of the WhatsApp session
+}
+
 interface DisconnectSessionParams {
     whatsappSessionId: number; // ID of the WhatsApp session
 }
 
+interface DecryptMediaPayload {
+    key: { id: string }; // the key of the received message
+    message: Record<string, any>; // its media part, e.g. { imageMessage: { url, mediaKey, mimetype, ... } }
+}
+
 interface VerifyWebhookSignatureParams {
-    body: any;
+    rawBody: Buffer | string; // the exact bytes received, not re-serialized JSON
     signature: string;
     secret: string;
 }
 
-class WasenderService {
+// Limits for calls to WasenderAPI; a send that hangs would otherwise hold up the webhook queue
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.WASENDER_TIMEOUT_MS || '15000', 10);
+const DEFAULT_MAX_RETRIES = parseInt(process.env.WASENDER_MAX_RETRIES || '3', 10);
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface WasenderServiceOptions {
+    baseURL?: string;
+    timeoutMs?: number;
+    maxRetries?: number; // retries after the first attempt for rate limits and server errors
+    retryDelayMs?: number; // the first backoff delay, doubled on each retry
+}
+
+// A call WasenderAPI answered with an error, or that never got an answer
+export class WasenderApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number | null, // HTTP status, or null when there was no response
+        readonly details?: unknown // WasenderAPI's error body
+    ) {
+        super(message);
+        this.name = 'WasenderApiError';
+    }
+}
+
+// The API key or account token was rejected (401/403)
+export class WasenderAuthError extends WasenderApiError {
+    constructor(message: string, status: number, details?: unknown) {
+        super(message, status, details);
+        this.name = 'WasenderAuthError';
+    }
+}
+
+// Still rate limited (429) after the retries
+export class WasenderRateLimitError extends WasenderApiError {
+    constructor(message: string, details?: unknown, readonly retryAfterMs?: number) {
+        super(message, 429, details);
+        this.name = 'WasenderRateLimitError';
+    }
+}
+
+// No answer within the timeout
+export class WasenderTimeoutError extends WasenderApiError {
+    constructor(message: string) {
+        super(message, null);
+        this.name = 'WasenderTimeoutError';
+    }
+}
+
+// Helper function to read a Retry-After header given in seconds or as a date
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Helper function to turn an axios error into one of our errors, keeping WasenderAPI's message
+function toWasenderError(action: string, error: AxiosError): WasenderApiError {
+    const status = error.response?.status;
+    const details = error.response?.data;
+    const reason = (details as any)?.message || error.message;
+    const message = `${action}: ${reason}`;
+
+    if (!error.response) {
+        return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+            ? new WasenderTimeoutError(message)
+            : new WasenderApiError(message, null);
+    }
+    if (status === 401 || status === 403) {
+        return new WasenderAuthError(message, status, details);
+    }
+    if (status === 429) {
+        return new WasenderRateLimitError(message, details, parseRetryAfter(error.response.headers?.['retry-after']));
+    }
+    return new WasenderApiError(message, status ?? null, details);
+}
+
+// Statuses and connection errors that mean WasenderAPI did not act on the request
+const RETRYABLE_STATUSES = [429, 503];
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Only calls that certainly did nothing are retried: rate limits, 503 Service Unavailable and
+// connections that could not be opened. A timeout, 502 or 504 may come after a message went out,
+// and retrying it could message the patient twice.
+function isRetryable(error: AxiosError): boolean {
+    return error.response
+        ? RETRYABLE_STATUSES.includes(error.response.status)
+        : UNSENT_ERROR_CODES.includes(error.code ?? '');
+}
+
+// Client for WasenderAPI. Every call carries its own API key, so calls for different clinics can run
+// concurrently on the one shared client.
+export class WasenderService {
     private apiClient: AxiosInstance;
+    private maxRetries: number;
+    private retryDelayMs: number;
 
-    constructor() {
+    constructor({
+        baseURL = 'https://www.wasenderapi.com/api',
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        maxRetries = DEFAULT_MAX_RETRIES,
+        retryDelayMs = DEFAULT_RETRY_DELAY_MS
+    }: WasenderServiceOptions = {}) {
         this.apiClient = axios.create({
-        baseURL: 'https://www.wasenderapi.com/api', // Correct base URL
-        headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-        },
+            baseURL,
+            timeout: timeoutMs,
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json',
+            },
         });
+        this.maxRetries = maxRetries;
+        this.retryDelayMs = retryDelayMs;
     }
 
-    async createSession(apiKey: string | undefined , payload: CreateSessionPayload) {
-        try {
-            // Correct authentication method: Bearer token in Authorization header
-            this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-            const response = await this.apiClient.post('/whatsapp-sessions', payload);
-            return response.data;
-        } catch (error: any) {
-            console.error('Error creating WhatsApp session:', error.response?.data || error.message);
-            throw error;
-        }
+    async createSession(apiKey: string | undefined, payload: CreateSessionPayload) {
+        return this.request('Error creating WhatsApp session', apiKey, { method: 'POST', url: '/whatsapp-sessions', data: payload });
     }
 
     async getSessionStatus(apiKey: string, sessionId: number) {
-        try {
-            this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-            const response = await this.apiClient.get(`/status`, {
-                params: { whatsappSession: sessionId }
-            });
-            return response.data;
-        } catch (error: any) {
-            console.error('Error getting session status:', error.response?.data || error.message);
-            throw error;
-        }
+        return this.request('Error getting session status', apiKey, {
+            method: 'GET',
+            url: '/status',
+            params: { whatsappSession: sessionId }
+        });
     }
 
     async connectSession(apiKey: string, params: ConnectSessionParams) {
-        try {
-            this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-            const response = await this.apiClient.post(`/whatsapp-sessions/${params.whatsappSessionId}/connect`);
-            return response.data;
-        } catch (error: any) {
-            console.error('Error connecting WhatsApp session:', error.response?.data || error.message);
-            throw error;
-        }
+        return this.request('Error connecting WhatsApp session', apiKey, {
+            method: 'POST',
+            url: `/whatsapp-sessions/${params.whatsappSessionId}/connect`
+        });
     }
 
     async getQRCode(apiKey: string, params: GetQRCodeParams) {
-        try {
-            this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-            const response = await this.apiClient.get(`/whatsapp-sessions/${params.whatsappSessionId}/qrcode`);
-            return response.data;
-        } catch (error: any) {
-            console.error('Error getting QR code:', error.response?.data || error.message);
-            throw error;
-        }
+        return this.request('Error getting QR code', apiKey, {
+            method: 'GET',
+            url: `/whatsapp-sessions/${params.whatsappSessionId}/qrcode`
+        });
+    }
+
+    // Session details, including its current API key and webhook secret (account-level token)
+    async getSessionDetails(apiKey: string | undefined, params: SessionDetailsParams) {
+        return this.request('Error getting WhatsApp session details', apiKey, {
+            method: 'GET',
+            url: `/whatsapp-sessions/${params.whatsappSessionId}`
+        });
+    }
+
+    // Issue a new API key for a session; the previous key stops working (account-level token)
+    async regenerateApiKey(apiKey: string | undefined, params: RegenerateApiKeyParams) {
+        return this.request('Error regenerating WhatsApp session API key', apiKey, {
+            method: 'POST',
+            url: `/whatsapp-sessions/${params.whatsappSessionId}/regenerate-key`
+        });
     }
 
     async disconnectSession(apiKey: string, params: DisconnectSessionParams) {
-        try {
-        this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-        const response = await this.apiClient.post(`/whatsapp-sessions/${params.whatsappSessionId}/disconnect`);
-        return response.data;
-        } catch (error: any) {
-        console.error('Error disconnecting WhatsApp session:', error.response?.data || error.message);
-        throw error;
-        }
+        return this.request('Error disconnecting WhatsApp session', apiKey, {
+            method: 'POST',
+            url: `/whatsapp-sessions/${params.whatsappSessionId}/disconnect`
+        });
     }
 
     async sendMessage(apiKey: string, payload: SendMessagePayload) {
-        try {
-            this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
-            const response = await this.apiClient.post('/send-message', payload);
-            return response.data;
-        } catch (error: any) {
-            console.error('Error sending WhatsApp message:', error.response?.data || error.message);
-            throw error;
-        }
+        return this.request('Error sending WhatsApp message', apiKey, { method: 'POST', url: '/send-message', data: payload });
+    }
+
+    async sendImage(apiKey: string, { to, imageUrl, caption }: SendImageParams) {
+        return this.sendMessage(apiKey, { to, imageUrl, ...(caption && { text: caption }) });
+    }
+
+    async sendDocument(apiKey: string, { to, documentUrl, fileName, caption }: SendDocumentParams) {
+        return this.sendMessage(apiKey, { to, documentUrl, ...(fileName && { fileName }), ...(caption && { text: caption }) });
+    }
+
+    async sendLocation(apiKey: string, { to, latitude, longitude, name, address }: SendLocationParams) {
+        return this.sendMessage(apiKey, { to, location: { latitude, longitude, name, address } });
+    }
+
+    // WasenderAPI cannot send WhatsApp buttons or lists, so the options go out as a numbered list
+    async sendInteractive(apiKey: string, { to, text, options }: SendInteractiveParams) {
+        return this.sendMessage(apiKey, { to, text: formatOptionsAsText(text, options) });
+    }
+
+    // Decrypt the media of a received message; returns a temporary public URL to download it from
+    async decryptMedia(apiKey: string, payload: DecryptMediaPayload): Promise<string> {
+        const data = await this.request('Error decrypting WhatsApp media', apiKey, {
+            method: 'POST',
+            url: '/decrypt-media',
+            data: { data: { messages: payload } }
+        });
+        return data.publicUrl;
     }
 
     // Verify webhook signature using the clinic's secret
-    verifyWebhookSignature({ body, signature, secret }: VerifyWebhookSignatureParams): boolean {
-        if (!signature || !secret) {
-        return false;
+    verifyWebhookSignature({ rawBody, signature, secret }: VerifyWebhookSignatureParams): boolean {
+        return verifySignature(rawBody, signature, secret);
+    }
+
+    // Make a call with the given key, retrying rate limits and unavailability with exponential backoff.
+    // The key goes in this request's headers only, never in the client's shared defaults.
+    private async request(action: string, apiKey: string | undefined, config: AxiosRequestConfig): Promise<any> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.apiClient.request({
+                    ...config,
+                    headers: { ...config.headers, Authorization: `Bearer ${apiKey}` }
+                });
+                return response.data;
+            } catch (error) {
+                const wasenderError = axios.isAxiosError(error) ? toWasenderError(action, error) : error as Error;
+                if (!axios.isAxiosError(error) || !isRetryable(error) || attempt >= this.maxRetries) {
+                    console.error(wasenderError.message);
+                    throw wasenderError;
+                }
+
+                await new Promise((resolve) => setTimeout(resolve, this.retryDelay(wasenderError, attempt)));
+            }
         }
+    }
 
-        // For now, we'll implement a basic signature verification
-        // In a real implementation, you'd use a proper HMAC verification
-        // based on the WasenderAPI documentation
-        console.log('Webhook verification would happen here');
-        // This is a simplified check - implement according to WasenderAPI docs
-        return true; 
+    // Helper function to pick the wait before a retry: WasenderAPI's Retry-After when it sends one,
+    // otherwise a doubling delay with jitter, so clinics rate limited together do not retry together
+    private retryDelay(error: Error, attempt: number): number {
+        const retryAfter = error instanceof WasenderRateLimitError ? error.retryAfterMs : undefined;
+        const backoff = this.retryDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+        return Math.min(retryAfter ?? backoff, MAX_RETRY_DELAY_MS);
     }
 }
 
-export default new WasenderService();
\ No newline at end of file
+export default new WasenderService();
@@ -0,0 +1,104 @@
+// src/services/webhookEventService.ts
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { WebhookPayload } from './webhookProcessor';
+import { decryptField, encryptField, isEncryptionEnabled } from '../utils/fieldEncryption';
+
+const prisma = new PrismaClient();
+
+// How far a webhook's timestamp may be from our clock before it is treated as a replay
+const TIMESTAMP_TOLERANCE_SECONDS = parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300', 10);
+
+// Processed events only need to outlive the timestamp window for deduplication; older ones are
+// purged at most once an hour. Dead events keep their payload for inspection, for a week by default.
+const SEEN_EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const DEAD_EVENT_RETENTION_MS = parseInt(process.env.WEBHOOK_DEAD_RETENTION_DAYS || '7', 10) * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+class WebhookEventService {
+    private lastPurgeAt = 0;
+
+    // Whether the webhook was sent recently enough; timestamps may be in seconds or milliseconds.
+    // Payloads without a timestamp are accepted and rely on event deduplication alone.
+    isWithinTolerance(timestamp: unknown, now: number = Date.now()): boolean {
+        if (timestamp === undefined || timestamp === null) {
+            return true;
+        }
+
+        const value = Number(timestamp);
+        if (!Number.isFinite(value)) {
+            return false;
+        }
+
+        const timestampMs = value > 1e12 ? value : value * 1000;
+        return Math.abs(now - timestampMs) <= TIMESTAMP_TOLERANCE_SECONDS * 1000;
+    }
+
+    // The provider's event ID when it sends one, otherwise a hash of the exact bytes received
+    getEventId(rawBody: Buffer | string, body: any, headers: Record<string, unknown>): string {
+        const headerId = headers['x-webhook-id'] || headers['x-event-id'];
+        if (typeof headerId === 'string' && headerId) {
+            return headerId;
+        }
+
+        if (typeof body?.id === 'string' && body.id) {
+            return body.id;
+        }
+
+        return crypto.createHash('sha256').update(rawBody).digest('hex');
+    }
+
+    // Store an event for the webhook queue. Returns false if it was already seen, i.e. the webhook is a replay.
+    async enqueue(whatsappSessionId: string, eventId: string, payload: { event: string }): Promise<boolean> {
+        await this.purgeExpired();
+
+        try {
+            await prisma.webhookEvent.create({
+                data: {
+                    whatsappSessionId,
+                    eventId,
+                    event: payload.event,
+                    payload: this.sealPayload(payload)
+                }
+            });
+            return true;
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // The payload of a queued event. Payloads carry message text and phone numbers, so they are stored
+    // encrypted as a string when field encryption is enabled; older ones are plain JSON.
+    readPayload(stored: Prisma.JsonValue): WebhookPayload {
+        if (typeof stored === 'string') {
+            return JSON.parse(decryptField(stored));
+        }
+        return stored as unknown as WebhookPayload;
+    }
+
+    private sealPayload(payload: { event: string }): Prisma.InputJsonValue {
+        return isEncryptionEnabled() ? encryptField(JSON.stringify(payload)) : payload as Prisma.InputJsonObject;
+    }
+
+    private async purgeExpired(): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+            return;
+        }
+
+        this.lastPurgeAt = now;
+        await prisma.webhookEvent.deleteMany({
+            where: {
+                OR: [
+                    { status: 'processed', receivedAt: { lt: new Date(now - SEEN_EVENT_RETENTION_MS) } },
+                    { status: 'dead', receivedAt: { lt: new Date(now - DEAD_EVENT_RETENTION_MS) } }
+                ]
+            }
+        });
+    }
+}
+
+export default new WebhookEventService();
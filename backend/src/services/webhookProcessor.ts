@@ -0,0 +1,377 @@
+// src/services/webhookProcessor.ts
+import { PrismaClient } from '@prisma/client';
+import { generateBotResponse, generateMediaResponse } from './botService';
+import conversationStateService from './conversationStateService';
+import languageService from './languageService';
+import mediaService from './mediaService';
+import messageService from './messageService';
+import patientService from './patientService';
+import { Language } from '../types/bot';
+import { OutboundContent } from '../types/message';
+import { parseInboundMessage } from '../utils/inboundMessage';
+import { withFieldEncryption } from '../utils/prismaEncryption';
+
+const prisma = withFieldEncryption(new PrismaClient());
+
+// Incoming webhook events, in WasenderAPI's format; other providers' webhooks are translated into it
+export interface WebhookPayload {
+  id?: string; // the event's ID, set by providers that batch several events in one webhook
+  event: string;
+  data: any;
+  timestamp: number;
+  // For messages.update, the documentation shows sessionId might be present
+  sessionId?: string;
+}
+
+// Interface for message key
+interface MessageKey {
+  id: string;
+  fromMe: boolean;
+  remoteJid: string;
+}
+
+// Status codes for message updates
+enum MessageStatus {
+  ERROR = 0,
+  PENDING = 1,
+  SENT = 2,
+  DELIVERED = 3,
+  READ = 4,
+  PLAYED = 5
+}
+
+// Load a session with everything the bot needs to answer its patients
+export function loadSessionForProcessing(whatsappSessionId: string) {
+  return prisma.whatsappSession.findUnique({
+    where: { id: whatsappSessionId },
+    include: {
+      user: {
+        include: {
+          clinicSettings: {
+            include: {
+              services: { orderBy: { sortOrder: 'asc' } },
+              customKeywords: { orderBy: [{ priority: 'desc' }, { sortOrder: 'asc' }] },
+              // Closures still to come; a day of slack covers clinics ahead of UTC
+              closures: { where: { endDate: { gte: new Date(Date.now() - 24 * 60 * 60000) } }, orderBy: { startDate: 'asc' } }
+            }
+          }
+        }
+      }
+    }
+  });
+}
+
+// Run a verified webhook event through its handler. Errors are rethrown so the queue can retry.
+export async function processWebhookEvent(webhookData: WebhookPayload, session: any) {
+  console.log(`Processing event: ${webhookData.event} for session: ${session.sessionId}`);
+  
+  // Handle different types of events
+  switch (webhookData.event) {
+    case 'messages.received':
+      await handleMessagesReceived(webhookData, session);
+      break;
+    case 'message.sent':
+      await handleMessageSent(webhookData, session);
+      break;
+    case 'messages.update':
+      await handleMessagesUpdate(webhookData, session);
+      break;
+    default:
+      console.log(`Unhandled event type: ${webhookData.event}`);
+      break;
+  }
+}
+
+// Helper function to handle incoming messages
+async function handleMessagesReceived(webhookData: WebhookPayload, session: any) {
+  try {
+    
+    const { 
+      key, 
+      message 
+    } = webhookData.data;
+    
+    if (!key || !message) {
+      console.error('Missing key or message in messages.received payload');
+      return;
+    }
+    
+    // Text, media with its caption, or a location pin
+    const parsed = parseInboundMessage(message);
+    
+    if (!parsed) {
+      console.log('Unsupported message type, skipping:', Object.keys(message).join(', '));
+      return;
+    }
+    
+    const content = parsed.text;
+    
+    const timestamp = new Date(webhookData.timestamp * 1000); // Convert timestamp to Date
+    
+    // Keep the clinic's patient record for this number up to date
+    const patient = await patientService.upsertFromInbound(session.userId, key.remoteJid, {
+      whatsappName: webhookData.data.pushName,
+      at: timestamp
+    });
+    
+    // Detect the language of this message, falling back to what we know about the patient
+    const language = await languageService.resolve(session.id, key.remoteJid, content, session.user.languagePreference, patient);
+    
+    // A retried event may already have saved the message before failing
+    const existingMessage = key.id
+      ? await prisma.message.findFirst({
+          where: {
+            whatsappSessionId: session.id,
+            direction: 'inbound',
+            providerMessageId: key.id
+          }
+        })
+      : null;
+    
+    // Keep the file of a media message; the message is saved even if that fails, so staff still see it
+    let mediaKey: string | null = null;
+    let metadata = parsed.metadata;
+    if (!existingMessage && parsed.mediaMessage && metadata) {
+      try {
+        mediaKey = await mediaService.storeInbound({
+          session,
+          providerMessageId: key.id,
+          mediaMessage: parsed.mediaMessage,
+          metadata
+        });
+      } catch (error: any) {
+        console.error('Error storing media of incoming message:', error.message);
+        metadata = { ...metadata, mediaError: error.message };
+      }
+    }
+    
+    // Save the incoming message to our database
+    const savedMessage = existingMessage ?? await prisma.message.create({
+      data: {
+        whatsappSessionId: session.id,
+        senderNumber: key.remoteJid, // This is the sender's JID
+        recipientNumber: session.phoneNumber, // This session's number
+        messageType: parsed.type,
+        content: content,
+        metadata: metadata ?? undefined,
+        mediaKey,
+        direction: 'inbound',
+        status: 'received',
+        timestamp,
+        providerMessageId: key.id,
+        languageUsed: language,
+        patientId: patient?.id
+      }
+    });
+    
+    console.log(`Saved incoming message: ${savedMessage.id}`);
+    
+    // The bot already answered this message before the event failed, e.g. on sending a later part of the reply
+    if (savedMessage.handledAt) {
+      console.log(`Message ${savedMessage.id} was already handled, skipping bot`);
+      return;
+    }
+    
+    // Process the message based on clinic settings and implement bot logic
+    await processIncomingMessage(savedMessage, session, language);
+  } catch (error) {
+    console.error('Error handling incoming message:', error);
+    throw error;
+  }
+}
+
+// Helper function to handle sent messages
+async function handleMessageSent(webhookData: WebhookPayload, session: any) {
+  try {
+    const { 
+      key, 
+      message,
+      success 
+    } = webhookData.data;
+    
+    if (!key || !message) {
+      console.error('Missing key or message in message.sent payload');
+      return;
+    }
+    
+    // Extract message content
+    let content = '';
+    if (message.conversation) {
+      content = message.conversation;
+    }
+    
+    const status = success === false ? 'failed' : 'sent';
+    
+    // Match our outbound message by the IDs the provider may use: WasenderAPI's msgId from the
+    // send response, or WhatsApp's key.id, which is stored from now on for later status updates
+    const updatedMessage = await messageService.updateDeliveryStatus(
+      session.id,
+      [key.id, webhookData.data.msgId],
+      status,
+      key.id
+    );
+    
+    // If we couldn't match by ID, try to match by content as a fallback. Contents are encrypted
+    // with a random IV, so recent candidates are compared after decryption instead of in the query.
+    if (!updatedMessage && content) {
+      const candidates = await prisma.message.findMany({
+        where: {
+          whatsappSessionId: session.id,
+          direction: 'outbound',
+          status: 'pending', // Assuming it was pending before being sent
+          providerMessageId: null
+        },
+        orderBy: { timestamp: 'desc' },
+        take: 20
+      });
+      
+      const matchedMessage = candidates.find((candidate) => candidate.content === content);
+      if (matchedMessage) {
+        await prisma.message.update({
+          where: { id: matchedMessage.id },
+          data: {
+            status,
+            providerMessageId: key.id
+          }
+        });
+      }
+    }
+    
+    console.log(`Updated message status to ${status}`);
+  } catch (error) {
+    console.error('Error handling sent message:', error);
+    throw error;
+  }
+}
+
+// Helper function to handle message updates (status changes)
+async function handleMessagesUpdate(webhookData: WebhookPayload, session: any) {
+  try {
+    const { 
+      update, 
+      key 
+    } = webhookData.data;
+    
+    if (!update || !key) {
+      console.error('Missing update or key in messages.update payload');
+      return;
+    }
+    
+    const { status } = update;
+    
+    if (status === undefined) {
+      console.error('Missing status in messages.update payload');
+      return;
+    }
+    
+    // Convert numeric status to string
+    let statusString = '';
+    switch (status) {
+      case MessageStatus.ERROR:
+        statusString = 'failed';
+        break;
+      case MessageStatus.PENDING:
+        statusString = 'pending';
+        break;
+      case MessageStatus.SENT:
+        statusString = 'sent';
+        break;
+      case MessageStatus.DELIVERED:
+        statusString = 'delivered';
+        break;
+      case MessageStatus.READ:
+        statusString = 'read';
+        break;
+      case MessageStatus.PLAYED:
+        statusString = 'played';
+        break;
+      default:
+        console.error(`Unknown status ${status} in messages.update payload`);
+        return;
+    }
+    
+    // Update the message status in our database, matching by the provider's message ID.
+    // Statuses only move forward, so late or duplicate updates are ignored.
+    const updatedMessage = await messageService.updateDeliveryStatus(session.id, [key.id], statusString);
+    
+    if (!updatedMessage) {
+      console.log(`No outbound message matched ID ${key.id}`);
+      return;
+    }
+    
+    console.log(`Message ${updatedMessage.id} status is now ${updatedMessage.status}`);
+  } catch (error) {
+    console.error('Error handling message update:', error);
+    throw error;
+  }
+}
+
+// Main function to process incoming messages and respond accordingly
+async function processIncomingMessage(message: any, session: any, language: Language) {
+  try {
+    // Get clinic settings for this session
+    // Clinic settings are already included in the session from the initial query
+    const clinicSettings = session.user.clinicSettings
+      ? { ...session.user.clinicSettings, user: session.user }
+      : null;
+    
+    if (!clinicSettings) {
+      console.error(`No clinic settings found for user: ${session.userId}`);
+      return;
+    }
+    
+    // Claim the message before the bot runs, since it can book appointments and notify staff: only one
+    // delivery of an event gets past this, so a retried or reclaimed event neither runs the bot again nor
+    // replies twice. A reply that failed to send is kept as a failed outbound message for staff to see.
+    const claimed = await prisma.message.updateMany({
+      where: { id: message.id, handledAt: null },
+      data: { handledAt: new Date() }
+    });
+    if (claimed.count !== 1) {
+      return;
+    }
+    
+    // Load where this patient left off, so follow-up replies are understood
+    const conversationState = await conversationStateService.get(session.id, message.senderNumber);
+    
+    // Media without a caption and location pins are acknowledged; anything with text goes through the bot
+    const isMedia = message.messageType !== 'text' && (message.messageType === 'location' || !message.content);
+    
+    // Process the message content and generate a response
+    const attachments: OutboundContent[] = [];
+    let responseMessage = isMedia
+      ? await generateMediaResponse(message.messageType, clinicSettings, language, message.senderNumber, session.id, conversationState)
+      : await generateBotResponse(
+          message.content, 
+          clinicSettings, 
+          language,
+          message.senderNumber,
+          session.id,
+          conversationState,
+          { attachments }
+        );
+    
+    // If we have a response, send it back, followed by any map pin or image; each is stored as an outbound message
+    if (responseMessage) {
+      await messageService.sendText({
+        session,
+        to: message.senderNumber,
+        text: responseMessage,
+        languageUsed: language,
+        patientId: message.patientId
+      });
+    }
+    for (const content of attachments) {
+      await messageService.send({
+        session,
+        to: message.senderNumber,
+        content,
+        languageUsed: language,
+        patientId: message.patientId
+      });
+    }
+  } catch (error) {
+    console.error('Error processing incoming message:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,137 @@
+// src/services/webhookQueue.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import webhookEventService from './webhookEventService';
+import { loadSessionForProcessing, processWebhookEvent } from './webhookProcessor';
+
+const prisma = new PrismaClient();
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 10;
+// A claimed event that is still 'processing' after this long is assumed abandoned by a crashed worker
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 30s, 1m, 2m, 4m, ...
+export function getRetryDelay(attempts: number): number {
+    return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+class WebhookQueue {
+    private timer: NodeJS.Timeout | null = null;
+    private draining = false;
+    private wakeAgain = false;
+
+    // Poll for due events in the background; called once when the server starts
+    start(intervalMs: number = POLL_INTERVAL_MS) {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.wake(), intervalMs);
+        this.wake();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Process due events now instead of waiting for the next poll. Does nothing unless the worker
+    // was started, so tests drive the queue explicitly with processDue().
+    wake() {
+        if (!this.timer) {
+            return;
+        }
+        if (this.draining) {
+            this.wakeAgain = true;
+            return;
+        }
+
+        this.draining = true;
+        this.processDue()
+            .catch((error) => console.error('Error processing webhook queue:', error))
+            .finally(() => {
+                this.draining = false;
+                if (this.wakeAgain) {
+                    this.wakeAgain = false;
+                    this.wake();
+                }
+            });
+    }
+
+    // Process the events that are due at `now`, oldest first. Returns how many were attempted.
+    async processDue(now: Date = new Date()): Promise<number> {
+        const events = await prisma.webhookEvent.findMany({
+            where: {
+                status: { in: ['pending', 'processing'] },
+                nextAttemptAt: { lte: now }
+            },
+            orderBy: { receivedAt: 'asc' },
+            take: BATCH_SIZE
+        });
+
+        let attempted = 0;
+        for (const event of events) {
+            // Claim the event so other workers skip it; the claim expires after LOCK_TIMEOUT_MS
+            const claimed = await prisma.webhookEvent.updateMany({
+                where: {
+                    id: event.id,
+                    status: event.status,
+                    nextAttemptAt: event.nextAttemptAt
+                },
+                data: {
+                    status: 'processing',
+                    attempts: { increment: 1 },
+                    nextAttemptAt: new Date(now.getTime() + LOCK_TIMEOUT_MS)
+                }
+            });
+
+            if (claimed.count === 0) {
+                continue;
+            }
+
+            await this.processEvent(event.id, event.whatsappSessionId, event.payload, event.attempts + 1, now);
+            attempted++;
+        }
+
+        return attempted;
+    }
+
+    private async processEvent(id: string, whatsappSessionId: string, storedPayload: Prisma.JsonValue, attempts: number, now: Date) {
+        try {
+            const payload = webhookEventService.readPayload(storedPayload);
+            const session = await loadSessionForProcessing(whatsappSessionId);
+            if (session) {
+                await processWebhookEvent(payload, session);
+            }
+
+            // Only the event ID is needed from here on, for deduplication
+            await prisma.webhookEvent.update({
+                where: { id },
+                data: {
+                    status: 'processed',
+                    processedAt: new Date(),
+                    lastError: null,
+                    payload: Prisma.DbNull
+                }
+            });
+        } catch (error: any) {
+            const isDead = attempts >= MAX_ATTEMPTS;
+            console.error(`Webhook event ${id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+
+            // Retry with backoff, or park the event as a dead letter once it ran out of attempts
+            await prisma.webhookEvent.update({
+                where: { id },
+                data: {
+                    status: isDead ? 'dead' : 'pending',
+                    lastError: error?.message || String(error),
+                    nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempts))
+                }
+            });
+        }
+    }
+}
+
+export default new WebhookQueue();
@@ -0,0 +1,42 @@
+// src/types/bot.ts
+import type { ConversationState } from '../services/conversationStateService';
+import type { OutboundContent } from './message';
+
+export type Language = 'en' | 'ar';
+
+// Things a patient can ask the bot for, either by keyword or by picking a menu number
+export const BOT_INTENTS = ['greeting', 'location', 'hours', 'services', 'booking', 'contact', 'human'] as const;
+export type BotIntent = typeof BOT_INTENTS[number];
+
+// Everything a bot handler needs to answer one patient
+export interface BotContext {
+    whatsappSessionId: string;
+    senderNumber: string; // the patient's JID
+    language: Language;
+    clinicSettings: any; // ClinicSetting with services, customKeywords and user included
+    simulation?: BotSimulation; // set when the reply is only simulated
+    attachments?: OutboundContent[]; // rich messages to send after the text reply, e.g. the clinic's map pin
+}
+
+// How the bot arrived at a reply, as reported by the simulator
+export interface BotMatch {
+    source: 'handoff' | 'booking' | 'languageSwitch' | 'reminder' | 'menu' | 'keyword' | 'intent' | 'fallback';
+    intent?: BotIntent;
+    confidence?: number;
+    keywordId?: string;
+    keyword?: string; // the keyword rule term or classifier keyword that matched
+}
+
+// Something the bot would have done besides replying, e.g. { action: 'appointment.create', data: {...} }
+export interface SimulatedAction {
+    action: string;
+    data?: Record<string, any>;
+}
+
+// A conversation run by the simulator. Its state lives here instead of the database, and the bot
+// lists what it would have done rather than doing it.
+export interface BotSimulation {
+    state: ConversationState | null;
+    match: BotMatch | null;
+    actions: SimulatedAction[];
+}
@@ -0,0 +1,18 @@
+// src/types/message.ts
+
+// A choice in an interactive message; `id` comes back when the patient picks it
+export interface InteractiveOption {
+    id: string;
+    title: string;
+    description?: string;
+}
+
+// Something we send to a patient, whatever provider carries it
+export type OutboundContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; url: string; caption?: string }
+    | { type: 'document'; url: string; fileName?: string; caption?: string }
+    | { type: 'location'; latitude: number; longitude: number; name?: string; address?: string }
+    | { type: 'interactive'; text: string; options: InteractiveOption[]; buttonText?: string };
+
+export type OutboundContentType = OutboundContent['type'];
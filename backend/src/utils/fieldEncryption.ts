@@ -0,0 +1,133 @@
+// src/utils/fieldEncryption.ts
+import crypto from 'crypto';
+
+// Encrypted values look like "enc:<keyId>:<iv>:<authTag>:<ciphertext>", all base64 except the key ID.
+// Values without the prefix were written before encryption was enabled and are returned as-is.
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+interface KeyRing {
+    activeKeyId: string;
+    keys: Map<string, Buffer>;
+}
+
+let warnedUnconfigured = false;
+
+// Keys come from FIELD_ENCRYPTION_KEYS as "keyId:base64Key,..." (32-byte keys). New values are
+// encrypted with FIELD_ENCRYPTION_KEY_ID, or the first key listed; the others are kept for reading
+// values written before a rotation. Read on every call so tests and rotations can change them.
+function loadKeyRing(): KeyRing | null {
+    const raw = process.env.FIELD_ENCRYPTION_KEYS;
+    if (!raw) {
+        return null;
+    }
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of raw.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const keyId = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+        if (separator <= 0 || key.length !== 32) {
+            throw new Error(`Invalid FIELD_ENCRYPTION_KEYS entry for key "${keyId}": expected keyId:base64 of 32 bytes`);
+        }
+        keys.set(keyId, key);
+    }
+
+    const activeKeyId = process.env.FIELD_ENCRYPTION_KEY_ID || keys.keys().next().value;
+    if (!activeKeyId || !keys.has(activeKeyId)) {
+        throw new Error(`FIELD_ENCRYPTION_KEY_ID "${activeKeyId}" is not in FIELD_ENCRYPTION_KEYS`);
+    }
+
+    return { activeKeyId, keys };
+}
+
+// Whether new values are encrypted. Production refuses to store health data in plain text.
+export function isEncryptionEnabled(): boolean {
+    if (loadKeyRing()) {
+        return true;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('FIELD_ENCRYPTION_KEYS must be set in production');
+    }
+
+    if (!warnedUnconfigured) {
+        warnedUnconfigured = true;
+        console.warn('FIELD_ENCRYPTION_KEYS is not set; patient data will be stored unencrypted');
+    }
+    return false;
+}
+
+export function isEncrypted(value: string): boolean {
+    return value.startsWith(`${PREFIX}:`);
+}
+
+// The ID of the key a value was encrypted with, or null for plain text
+export function getKeyId(value: string): string | null {
+    return isEncrypted(value) ? value.split(':')[1] : null;
+}
+
+// Whether a stored value should be rewritten with the active key
+export function needsReencryption(value: string): boolean {
+    const keyRing = loadKeyRing();
+    return !!keyRing && getKeyId(value) !== keyRing.activeKeyId;
+}
+
+export function encryptField(plaintext: string): string {
+    const keyRing = loadKeyRing();
+    if (!keyRing) {
+        throw new Error('FIELD_ENCRYPTION_KEYS is not configured');
+    }
+
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, keyRing.keys.get(keyRing.activeKeyId)!, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [
+        PREFIX,
+        keyRing.activeKeyId,
+        iv.toString('base64'),
+        cipher.getAuthTag().toString('base64'),
+        ciphertext.toString('base64')
+    ].join(':');
+}
+
+// Decrypt a stored value. Throws if the value was tampered with or its key is no longer configured.
+export function decryptField(value: string): string {
+    if (!isEncrypted(value)) {
+        return value;
+    }
+
+    const [, keyId, iv, authTag, ciphertext] = value.split(':');
+    const key = loadKeyRing()?.keys.get(keyId);
+    if (!key) {
+        throw new Error(`Field encryption key "${keyId}" is not configured`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64')),
+        decipher.final()
+    ]).toString('utf8');
+}
+
+// A keyed hash of a value, so an encrypted column can still be looked up by exact value. The key in
+// FIELD_BLIND_INDEX_KEY (base64, 32 bytes) is separate from the encryption keys, which rotate; changing
+// it means rehashing with `npm run reencrypt`. Outside production an unset key falls back to a fixed one.
+export function blindIndex(value: string): string {
+    const raw = process.env.FIELD_BLIND_INDEX_KEY;
+    if (!raw && process.env.NODE_ENV === 'production') {
+        throw new Error('FIELD_BLIND_INDEX_KEY must be set in production');
+    }
+
+    const key = raw ? Buffer.from(raw, 'base64') : Buffer.from('unconfigured-blind-index-key');
+    if (raw && key.length !== 32) {
+        throw new Error('Invalid FIELD_BLIND_INDEX_KEY: expected base64 of 32 bytes');
+    }
+
+    return crypto.createHmac('sha256', key).update(value).digest('hex');
+}
@@ -0,0 +1,139 @@
+// src/utils/inboundMessage.ts
+
+// The kinds of inbound WhatsApp messages we keep, stored as Message.messageType
+export type InboundMessageType = 'text' | 'image' | 'video' | 'document' | 'audio' | 'location';
+
+// Details of a media or location message, stored as Message.metadata
+export interface MessageMetadata {
+    mimeType?: string;
+    fileName?: string;
+    size?: number; // in bytes, as announced by WhatsApp
+    seconds?: number; // length of audio and video
+    voiceNote?: boolean; // audio recorded in WhatsApp rather than a sent file
+    width?: number;
+    height?: number;
+    pageCount?: number;
+    latitude?: number;
+    longitude?: number;
+    name?: string; // name of a shared place
+    address?: string;
+    live?: boolean; // a live location
+    mediaError?: string; // why the file could not be stored
+}
+
+export interface ParsedInboundMessage {
+    type: InboundMessageType;
+    text: string; // the text, caption or place name; empty when there is none
+    metadata: MessageMetadata | null;
+    mediaMessage?: Record<string, any>; // the media part to download, e.g. { imageMessage: { url, mediaKey, ... } }
+}
+
+const MEDIA_FIELDS: Record<string, InboundMessageType> = {
+    imageMessage: 'image',
+    videoMessage: 'video',
+    documentMessage: 'document',
+    audioMessage: 'audio',
+};
+
+// WhatsApp sends sizes and durations as numbers, strings or { low, high } longs
+function toNumber(value: any): number | undefined {
+    if (value && typeof value === 'object' && typeof value.low === 'number') {
+        return (value.high || 0) * 2 ** 32 + (value.low >>> 0);
+    }
+    const number = Number(value);
+    return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : undefined;
+}
+
+// Helper function to drop undefined values, so stored metadata only has what WhatsApp sent
+function compact(metadata: MessageMetadata): MessageMetadata {
+    return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as MessageMetadata;
+}
+
+// The type, text and details of the `message` of a messages.received webhook, or null for kinds
+// we do not handle, such as stickers, reactions and contacts
+export function parseInboundMessage(message: any): ParsedInboundMessage | null {
+    if (!message || typeof message !== 'object') {
+        return null;
+    }
+
+    if (typeof message.conversation === 'string' && message.conversation) {
+        return { type: 'text', text: message.conversation, metadata: null };
+    }
+    if (typeof message.extendedTextMessage?.text === 'string' && message.extendedTextMessage.text) {
+        return { type: 'text', text: message.extendedTextMessage.text, metadata: null };
+    }
+
+    // Documents sent with a caption are wrapped in another message
+    const unwrapped = message.documentWithCaptionMessage?.message ?? message;
+
+    for (const [field, type] of Object.entries(MEDIA_FIELDS)) {
+        const media = unwrapped[field];
+        if (!media) {
+            continue;
+        }
+
+        return {
+            type,
+            text: typeof media.caption === 'string' ? media.caption : '',
+            mediaMessage: { [field]: media },
+            metadata: compact({
+                mimeType: media.mimetype,
+                fileName: media.fileName,
+                size: toNumber(media.fileLength),
+                seconds: toNumber(media.seconds),
+                voiceNote: type === 'audio' ? Boolean(media.ptt) : undefined,
+                width: toNumber(media.width),
+                height: toNumber(media.height),
+                pageCount: toNumber(media.pageCount),
+            })
+        };
+    }
+
+    const location = message.locationMessage ?? message.liveLocationMessage;
+    if (location) {
+        const latitude = toNumber(location.degreesLatitude);
+        const longitude = toNumber(location.degreesLongitude);
+        if (latitude === undefined || longitude === undefined) {
+            return null;
+        }
+
+        return {
+            type: 'location',
+            text: location.name || location.address || location.caption || '',
+            metadata: compact({
+                latitude,
+                longitude,
+                name: location.name,
+                address: location.address,
+                live: message.liveLocationMessage ? true : undefined,
+            })
+        };
+    }
+
+    return null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic',
+    'video/mp4': 'mp4',
+    'video/3gpp': '3gp',
+    'audio/ogg': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/aac': 'aac',
+    'application/pdf': 'pdf',
+};
+
+// A file extension for stored media, from its MIME type (ignoring parameters such as
+// "; codecs=opus") or else its file name
+export function getMediaExtension(mimeType?: string, fileName?: string): string {
+    const known = mimeType ? EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] : undefined;
+    if (known) {
+        return known;
+    }
+    const match = fileName ? /\.([a-z0-9]{1,8})$/i.exec(fileName) : null;
+    return match ? match[1].toLowerCase() : 'bin';
+}
@@ -0,0 +1,296 @@
+// src/utils/keywordRules.ts
+import vm from 'vm';
+import { normalizeText } from './textNormalization';
+import { getZonedDateTime } from './timezone';
+import { DAY_NAMES, toMinutes } from './workingHours';
+
+// How a keyword is compared with a message:
+//   contains   - anywhere in the message, even inside a word (the original behaviour)
+//   word       - as whole words, so "cap" does not match "capital"
+//   exact      - the whole message and nothing else
+//   startsWith - at the start of the message
+//   regex      - a case-insensitive regular expression run on the message as sent
+export const KEYWORD_MATCH_MODES = ['contains', 'word', 'exact', 'startsWith', 'regex'] as const;
+export type KeywordMatchMode = typeof KEYWORD_MATCH_MODES[number];
+
+// Long patterns are more likely to backtrack badly on unlucky messages
+const MAX_PATTERN_LENGTH = 200;
+// Patterns only see the start of long messages, which bounds the work even a slow pattern can do
+const MAX_REGEX_INPUT_LENGTH = 1000;
+// How long a pattern may run on one message before it counts as not matching
+const REGEX_TIMEOUT_MS = 50;
+
+// Patterns run in their own context, which lets a slow one be interrupted
+const regexContext = vm.createContext({ pattern: '', text: '' });
+const regexScript = new vm.Script('new RegExp(pattern, "iu").test(text)');
+
+// The CustomKeyword fields that decide whether a rule applies
+export interface KeywordRule {
+    id?: string;
+    keyword: string;
+    synonyms?: string[];
+    matchMode?: string;
+    priority?: number;
+    sortOrder?: number;
+    activeFrom?: string | null;
+    activeTo?: string | null;
+    activeDays?: string[];
+}
+
+export interface KeywordRuleMatch<T extends KeywordRule> {
+    rule: T;
+    term: string; // the keyword or synonym that matched
+}
+
+// How an atom of a pattern is repeated: not at all, at most once, a fixed number of times, or without limit
+type Repetition = 'none' | 'optional' | 'counted' | 'unbounded';
+
+// Helper function to read the quantifier at an index, e.g. "*", "+?", "{2,5}". Returns how it
+// repeats and its length, which is 0 when there is none.
+function readQuantifier(pattern: string, index: number): { repetition: Repetition; length: number } {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    let repetition: Repetition = 'none';
+    let length = 0;
+
+    if (pattern[index] === '*' || pattern[index] === '+') {
+        repetition = 'unbounded';
+        length = 1;
+    } else if (pattern[index] === '?') {
+        repetition = 'optional';
+        length = 1;
+    } else if (braces) {
+        const [, min, range, max] = braces;
+        const upper = range === undefined ? parseInt(min, 10) : max === '' ? Infinity : parseInt(max, 10);
+        repetition = upper === Infinity ? 'unbounded' : upper <= 1 ? 'optional' : 'counted';
+        length = braces[0].length;
+    }
+
+    // A lazy quantifier such as "*?" repeats the same way
+    if (length > 0 && pattern[index + length] === '?') {
+        length++;
+    }
+    return { repetition, length };
+}
+
+// Whether a pattern is safe to run on every message. Patterns run on the server's only thread, so
+// those that can backtrack badly are refused:
+//   - repeated groups that contain any repetition, even "?", or an alternation, e.g. "(a+)+$" or "(a?){25}"
+//   - unlimited repetitions with nothing required between them, e.g. "a*a*b" or ".*.*x"
+//   - backreferences
+// This also refuses some harmless patterns, such as "(?:ab|cd)+", which can be written another way.
+export function isSafePattern(pattern: string): boolean {
+    // For each open group: whether it contains a repetition, an unlimited one, or an alternation, and
+    // whether an unlimited repetition was last seen with nothing required after it
+    type Group = { repeats: boolean; unbounded: boolean; alternates: boolean; openUnbounded: boolean };
+    const newGroup = (): Group => ({ repeats: false, unbounded: false, alternates: false, openUnbounded: false });
+    const groups: Group[] = [newGroup()];
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        const group = groups[groups.length - 1];
+        // What the atom ending at i contains, when it is a group
+        let closed: Group | null = null;
+
+        if (char === '\\') {
+            // \1-\9 and \k<name> refer back to a group, which no engine can match without backtracking
+            if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+                return false;
+            }
+            i++;
+        } else if (char === '[') {
+            // A character class is a single character, whatever it contains
+            for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+                if (pattern[i] === '\\') {
+                    i++;
+                }
+            }
+        } else if (char === '(') {
+            // Skip "?:", "?=", "?!", "?<=", "?<!" and "?<name>"
+            const prefix = /^\?(:|=|!|<=|<!|<[^>]*>)/.exec(pattern.slice(i + 1));
+            i += prefix ? prefix[0].length : 0;
+            groups.push(newGroup());
+            continue;
+        } else if (char === ')' && groups.length > 1) {
+            closed = groups.pop()!;
+        } else if (char === '|') {
+            group.alternates = true;
+            group.openUnbounded = false;
+            continue;
+        } else if (char === '^' || char === '$') {
+            continue;
+        }
+
+        const quantifier = readQuantifier(pattern, i + 1);
+        i += quantifier.length;
+
+        const parent = groups[groups.length - 1];
+        let repetition = quantifier.repetition;
+        if (closed) {
+            if ((repetition === 'counted' || repetition === 'unbounded') && (closed.repeats || closed.alternates)) {
+                return false;
+            }
+            parent.repeats = parent.repeats || closed.repeats;
+            parent.unbounded = parent.unbounded || closed.unbounded;
+            parent.alternates = parent.alternates || closed.alternates;
+            // A group with an unlimited repetition inside counts as one, e.g. "(a*)a*"
+            if (repetition === 'none' && closed.unbounded) {
+                repetition = 'unbounded';
+            }
+        }
+
+        if (repetition === 'unbounded') {
+            if (parent.openUnbounded) {
+                return false;
+            }
+            parent.openUnbounded = true;
+            parent.unbounded = true;
+        } else if (repetition === 'none' || repetition === 'counted') {
+            parent.openUnbounded = false;
+        }
+        if (quantifier.repetition !== 'none') {
+            parent.repeats = true;
+        }
+    }
+
+    return true;
+}
+
+// Run a pattern on a message, giving up after REGEX_TIMEOUT_MS. A pattern that passed isSafePattern
+// can still be slow on some messages; this keeps one clinic's rule from stalling every other clinic.
+function testPattern(pattern: string, text: string): boolean {
+    regexContext.pattern = pattern;
+    regexContext.text = text;
+    try {
+        return regexScript.runInContext(regexContext, { timeout: REGEX_TIMEOUT_MS }) === true;
+    } catch (error: any) {
+        if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            console.error(`Keyword pattern "${pattern}" took over ${REGEX_TIMEOUT_MS}ms and was skipped`);
+        }
+        return false;
+    }
+}
+
+// Check the keyword and synonyms of a rule can be used with its match mode. Returns an error
+// message, or null if they are valid.
+export function validateKeywordTerms(matchMode: string, terms: string[]): string | null {
+    if (matchMode !== 'regex') {
+        return null;
+    }
+
+    for (const term of terms) {
+        if (term.length > MAX_PATTERN_LENGTH) {
+            return `Patterns must be at most ${MAX_PATTERN_LENGTH} characters`;
+        }
+        try {
+            new RegExp(term, 'iu');
+        } catch (error) {
+            return `Invalid regular expression "${term}"`;
+        }
+        if (!isSafePattern(term)) {
+            return `Regular expression "${term}" repeats a group that itself repeats or has alternatives, or has repetitions with nothing required between them, which can freeze the server; simplify it or use another match mode`;
+        }
+    }
+
+    return null;
+}
+
+// Check an active-hours window: both times or neither, and the days it applies on. Returns an
+// error message, or null if valid.
+export function validateActiveWindow(activeFrom: unknown, activeTo: unknown, activeDays: unknown): string | null {
+    if ((activeFrom == null) !== (activeTo == null)) {
+        return 'Active hours need both "activeFrom" and "activeTo"';
+    }
+
+    if (activeFrom != null) {
+        const from = typeof activeFrom === 'string' ? toMinutes(activeFrom) : null;
+        const to = typeof activeTo === 'string' ? toMinutes(activeTo) : null;
+        if (from === null || to === null) {
+            return 'Active hours must use the HH:MM format';
+        }
+        if (from === to) {
+            return 'Active hours must not start and end at the same time';
+        }
+    }
+
+    if (activeDays !== undefined && activeDays !== null) {
+        if (!Array.isArray(activeDays) || activeDays.some((day) => !DAY_NAMES.includes(day))) {
+            return `Active days must be a list of day names: ${DAY_NAMES.join(', ')}`;
+        }
+    }
+
+    return null;
+}
+
+// Whether a rule applies at `now`, going by its active days and hours on the clinic's clock
+export function isRuleActive(rule: KeywordRule, now: Date = new Date(), timeZone?: string | null): boolean {
+    const { weekday, minutes } = getZonedDateTime(now, timeZone);
+    if (rule.activeDays && rule.activeDays.length > 0 && !rule.activeDays.includes(DAY_NAMES[weekday])) {
+        return false;
+    }
+
+    const from = toMinutes(rule.activeFrom ?? undefined);
+    const to = toMinutes(rule.activeTo ?? undefined);
+    if (from === null || to === null) {
+        return true;
+    }
+
+    // A window such as 22:00-06:00 runs overnight
+    return from < to
+        ? minutes >= from && minutes < to
+        : minutes >= from || minutes < to;
+}
+
+// The keyword or synonym of a rule the message matches, or null
+export function matchRuleTerm(rule: KeywordRule, content: string): string | null {
+    const terms = [rule.keyword, ...(rule.synonyms || [])].filter((term) => term && term.trim());
+    const mode = (rule.matchMode || 'contains') as KeywordMatchMode;
+
+    if (mode === 'regex') {
+        // Rules saved before patterns were checked are skipped rather than run
+        const text = content.trim().slice(0, MAX_REGEX_INPUT_LENGTH);
+        return terms.find((term) => {
+            return isSafePattern(term) && testPattern(term, text);
+        }) ?? null;
+    }
+
+    const message = normalizeText(content);
+    return terms.find((term) => {
+        const normalized = normalizeText(term);
+        switch (mode) {
+            case 'exact':
+                return message === normalized;
+            case 'startsWith':
+                return message.startsWith(normalized);
+            case 'word':
+                return ` ${message} `.includes(` ${normalized} `);
+            default:
+                return message.includes(normalized);
+        }
+    }) ?? null;
+}
+
+// Rules in the order they are checked: highest priority first, then the clinic's own order
+export function sortKeywordRules<T extends KeywordRule>(rules: T[]): T[] {
+    return [...rules].sort((a, b) =>
+        (b.priority ?? 0) - (a.priority ?? 0) || (a.sortOrder ?? 0) - (b.sortOrder ?? 0)
+    );
+}
+
+// The first rule that applies to the message at `now` in the clinic's time zone
+export function findKeywordRule<T extends KeywordRule>(
+    rules: T[],
+    content: string,
+    now: Date = new Date(),
+    timeZone?: string | null
+): KeywordRuleMatch<T> | null {
+    for (const rule of sortKeywordRules(rules)) {
+        if (!isRuleActive(rule, now, timeZone)) {
+            continue;
+        }
+        const term = matchRuleTerm(rule, content);
+        if (term) {
+            return { rule, term };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,78 @@
+// src/utils/languageDetection.ts
+import { Language } from '../types/bot';
+
+// Common Arabizi words (Arabic written in Latin letters) that carry no digit to give them away
+const ARABIZI_WORDS = new Set([
+    'ahlan', 'ahla', 'marhaba', 'marhaban', 'salam', 'salaam', 'alsalam', 'assalamu', 'alaikum', 'alaykum',
+    'shukran', 'shokran', 'mashallah', 'inshallah', 'yalla', 'habibi', 'habibti', 'ana', 'enta', 'enti',
+    'inta', 'inti', 'baddi', 'bidi', 'biddi', 'abi', 'abgha', 'ayez', 'ayza', 'mumkin', 'momken', 'kam',
+    'bikam', 'bkam', 'wein', 'wen', 'fein', 'shu', 'sho', 'eish', 'esh', 'keef', 'kif', 'kifak', 'keefak',
+    'izzayak', 'ezayak', 'tamam', 'mawed', 'maw3ed', 'doktor', 'daktor', 'sinan', 'asnan', 'alyom', 'bukra',
+    'bokra', 'lesh', 'leish', 'la', 'aywa', 'na3am', 'naam', 'akeed', 'afwan', 'fi', 'fe', 'wala',
+]);
+
+// Common English words, so short English messages are not mistaken for Arabizi
+const ENGLISH_WORDS = new Set([
+    'i', 'you', 'we', 'my', 'me', 'the', 'a', 'an', 'is', 'are', 'am', 'to', 'for', 'of', 'in', 'on', 'at',
+    'and', 'or', 'do', 'does', 'can', 'could', 'would', 'want', 'need', 'have', 'has', 'what', 'when', 'where',
+    'how', 'much', 'please', 'thanks', 'thank', 'hello', 'hi', 'hey', 'yes', 'no', 'ok', 'okay', 'book',
+    'appointment', 'price', 'prices', 'cost', 'open', 'hours', 'today', 'tomorrow', 'tooth', 'teeth', 'pain',
+    'cleaning', 'doctor', 'time', 'it', 'this', 'that', 'with', 'about', 'there', 'morning', 'evening',
+]);
+
+// Digits Arabizi uses for Arabic letters with no Latin equivalent: 2 ء, 3 ع, 5 خ, 6 ط, 7 ح, 8 ق, 9 ص
+const ARABIZI_DIGIT_WORD = /^(?=.*[a-z])(?=.*[235679])[a-z0-9']+$/;
+// ...but not times, ordinals and units such as "2pm", "3rd" or "5min"
+const NUMBER_WITH_UNIT = /^\d+(am|pm|st|nd|rd|th|h|hr|hrs|min|mins)$/;
+
+// Replies that switch the bot's language, compared after trimming and lower-casing
+const LANGUAGE_SWITCH_COMMANDS: Record<string, Language> = {
+    'english': 'en',
+    'en': 'en',
+    'انجليزي': 'en',
+    'إنجليزي': 'en',
+    'الانجليزية': 'en',
+    'الإنجليزية': 'en',
+    'عربي': 'ar',
+    'عربى': 'ar',
+    'العربية': 'ar',
+    'arabic': 'ar',
+    'arabi': 'ar',
+    '3arabi': 'ar',
+};
+
+// The language a message is written in: Arabic script, Arabizi or English. Returns null when the
+// message gives no clue, e.g. a menu number or an emoji, so the remembered language applies.
+export function detectLanguage(text: string): Language | null {
+    // Mixed messages such as "كم سعر cleaning" go to the script most of the words are in
+    const arabicWords = (text.match(/[ء-يٱ-ۓ]+/g) || []).length;
+    const latinWords = (text.match(/[a-z]+/gi) || []).length;
+
+    if (arabicWords === 0 && latinWords === 0) {
+        return null;
+    }
+    if (arabicWords >= latinWords) {
+        return 'ar';
+    }
+
+    const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    let arabizi = 0;
+    let english = 0;
+    for (const word of words) {
+        if (ARABIZI_DIGIT_WORD.test(word) && !NUMBER_WITH_UNIT.test(word)) {
+            arabizi += 2; // digits inside words are a strong sign of Arabizi
+        } else if (ARABIZI_WORDS.has(word)) {
+            arabizi++;
+        } else if (ENGLISH_WORDS.has(word)) {
+            english++;
+        }
+    }
+
+    return arabizi > english ? 'ar' : 'en';
+}
+
+// The language a patient asked to switch to, e.g. by replying "English" or "عربي", or null
+export function parseLanguageSwitch(text: string): Language | null {
+    const command = text.trim().toLowerCase().replace(/[.!؟?]+$/, '');
+    return LANGUAGE_SWITCH_COMMANDS[command] ?? null;
+}
@@ -0,0 +1,28 @@
+// src/utils/menuNumbers.ts
+import { Language } from '../types/bot';
+
+const ARABIC_INDIC_ZERO = 0x0660; // ٠
+const EXTENDED_ARABIC_INDIC_ZERO = 0x06f0; // ۰ (Persian/Urdu keyboards)
+
+// Replace Arabic-Indic digits with ASCII digits
+export function normalizeDigits(text: string): string {
+    return text.replace(/[٠-٩۰-۹]/g, (digit) => {
+        const code = digit.charCodeAt(0);
+        const base = code >= EXTENDED_ARABIC_INDIC_ZERO ? EXTENDED_ARABIC_INDIC_ZERO : ARABIC_INDIC_ZERO;
+        return String(code - base);
+    });
+}
+
+// The number a patient picked from a list, e.g. "3", "٣" or "3.", or null if the reply is not a number
+export function parseMenuNumber(text: string): number | null {
+    const match = /^(\d{1,2})[.)]?$/.exec(normalizeDigits(text.trim()));
+    return match ? parseInt(match[1], 10) : null;
+}
+
+// Render a list number in the numerals the patient reads
+export function formatMenuNumber(value: number, language: Language): string {
+    if (language !== 'ar') {
+        return String(value);
+    }
+    return String(value).replace(/\d/g, (digit) => String.fromCharCode(ARABIC_INDIC_ZERO + Number(digit)));
+}
@@ -0,0 +1,95 @@
+// src/utils/outboundContent.ts
+import { InteractiveOption, OutboundContent } from '../types/message';
+
+// Types staff can send from the inbox
+export const OUTBOUND_CONTENT_TYPES = ['text', 'image', 'document', 'location'] as const;
+
+// WhatsApp captions and messages are limited to 4096 characters
+const MAX_TEXT_LENGTH = 4096;
+
+// Whether a value is an http(s) URL the provider can download a file from
+export function isHttpUrl(value: unknown): boolean {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+        return false;
+    }
+}
+
+// Check a map pin: both coordinates or neither, within range. Returns an error message, or null if valid.
+export function validateCoordinates(latitude: unknown, longitude: unknown): string | null {
+    if ((latitude == null) !== (longitude == null)) {
+        return 'Latitude and longitude must be set together';
+    }
+    if (latitude == null) {
+        return null;
+    }
+    if (typeof latitude !== 'number' || typeof longitude !== 'number'
+        || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return 'Latitude must be between -90 and 90 and longitude between -180 and 180';
+    }
+    return null;
+}
+
+// Check a message body such as { type: 'document', url: 'https://...', fileName: 'pre-op.pdf', caption: '...' }.
+// A body without a type is text. Returns an error message, or null if valid.
+export function validateOutboundContent(body: any): string | null {
+    const type = body?.type ?? 'text';
+    if (!OUTBOUND_CONTENT_TYPES.includes(type)) {
+        return `Message type must be one of: ${OUTBOUND_CONTENT_TYPES.join(', ')}`;
+    }
+
+    const { text, caption, url, fileName, latitude, longitude, name, address } = body;
+
+    if (type === 'text' && (typeof text !== 'string' || !text.trim())) {
+        return 'Message text is required';
+    }
+
+    for (const value of [text, caption, name, address, fileName]) {
+        if (value != null && (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+            return `Text fields must be strings of at most ${MAX_TEXT_LENGTH} characters`;
+        }
+    }
+
+    if ((type === 'image' || type === 'document') && !isHttpUrl(url)) {
+        return 'A public http(s) URL of the file is required';
+    }
+
+    if (type === 'location') {
+        if (latitude == null || longitude == null) {
+            return 'Latitude and longitude are required';
+        }
+        return validateCoordinates(latitude, longitude);
+    }
+
+    return null;
+}
+
+// The content of a body checked with validateOutboundContent, with text trimmed
+export function toOutboundContent(body: any): OutboundContent {
+    const trim = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+    switch (body.type ?? 'text') {
+        case 'image':
+            return { type: 'image', url: body.url, caption: trim(body.caption) };
+        case 'document':
+            return { type: 'document', url: body.url, fileName: trim(body.fileName), caption: trim(body.caption) };
+        case 'location':
+            return { type: 'location', latitude: body.latitude, longitude: body.longitude, name: trim(body.name), address: trim(body.address) };
+        default:
+            return { type: 'text', text: body.text.trim() };
+    }
+}
+
+// Interactive options as a numbered list the patient answers by number, like the bot's menus,
+// for providers or messages that cannot use WhatsApp buttons and lists
+export function formatOptionsAsText(text: string, options: InteractiveOption[]): string {
+    const lines = options.map((option, index) =>
+        `${index + 1}. ${option.title}${option.description ? ` - ${option.description}` : ''}`
+    );
+    return [text, '', ...lines].join('\n');
+}
@@ -0,0 +1,31 @@
+// src/utils/phone.ts
+
+const WHATSAPP_JID_SUFFIX = '@s.whatsapp.net';
+
+// "+1 234-567" or "1234567@s.whatsapp.net" -> "1234567"
+export function toDigits(numberOrJid: string): string {
+    return numberOrJid.split('@')[0].replace(/\D/g, '');
+}
+
+// The JID WhatsApp uses for a phone number, which is how patients are stored on Message rows
+export function toJid(numberOrJid: string): string {
+    return `${toDigits(numberOrJid)}${WHATSAPP_JID_SUFFIX}`;
+}
+
+// The E.164 phone number of a JID, e.g. for Appointment.patientPhone
+export function jidToPhone(jid: string): string {
+    return `+${toDigits(jid)}`;
+}
+
+// A phone number or JID in E.164 form, e.g. "00971 50 123 4567" -> "+971501234567", or null when it
+// cannot be one. Numbers must include their country code; local numbers such as "050..." are rejected.
+export function toE164(numberOrJid: string): string | null {
+    const trimmed = numberOrJid.trim();
+    let digits = toDigits(trimmed);
+    if (!trimmed.startsWith('+') && digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else if (!trimmed.startsWith('+') && !trimmed.includes('@') && digits.startsWith('0')) {
+        return null;
+    }
+    return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+}
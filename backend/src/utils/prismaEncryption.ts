@@ -0,0 +1,260 @@
+// src/utils/prismaEncryption.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { decryptField, encryptField, isEncryptionEnabled } from './fieldEncryption';
+
+interface EncryptedModel {
+    fields: string[];
+    hasFlag: boolean; // whether the model records it in an `encryptedAtRest` column
+}
+
+type EncryptedModelKey = 'message' | 'appointment' | 'patient' | 'whatsappSession';
+
+// Columns holding patient data or provider credentials, per model
+const ENCRYPTED_MODELS: Record<EncryptedModelKey, EncryptedModel> = {
+    message: { fields: ['content'], hasFlag: true },
+    appointment: { fields: ['patientName', 'patientPhone'], hasFlag: true },
+    patient: { fields: ['phone', 'alternatePhones', 'name', 'whatsappName', 'notes'], hasFlag: true },
+    whatsappSession: { fields: ['apiKey', 'webhookSecret'], hasFlag: false },
+};
+
+// Helper function to encrypt the sensitive fields of a create/update payload
+function encryptData(data: any, { fields, hasFlag }: EncryptedModel): any {
+    if (!data || typeof data !== 'object') {
+        return data;
+    }
+
+    const written = fields.filter((field) => data[field] !== undefined);
+    if (written.length === 0) {
+        return data;
+    }
+
+    const enabled = isEncryptionEnabled();
+    const result = hasFlag ? { ...data, encryptedAtRest: enabled } : { ...data };
+    if (!enabled) {
+        return result;
+    }
+
+    for (const field of written) {
+        const value = data[field];
+        if (typeof value === 'string') {
+            result[field] = encryptField(value);
+        } else if (Array.isArray(value)) {
+            result[field] = value.map(encryptField);
+        } else if (typeof value?.set === 'string') {
+            result[field] = { set: encryptField(value.set) };
+        } else if (Array.isArray(value?.set)) {
+            result[field] = { set: value.set.map(encryptField) };
+        }
+    }
+    return result;
+}
+
+// The relation fields of each model and the model they point to, e.g. appointment.patient -> patient
+const RELATIONS: Record<string, Record<string, string>> = Object.fromEntries(
+    Prisma.dmmf.datamodel.models.map((model) => [
+        toModelKey(model.name),
+        Object.fromEntries(
+            model.fields
+                .filter((field) => field.kind === 'object')
+                .map((field) => [field.name, toModelKey(field.type)])
+        )
+    ])
+);
+
+// Helper function to turn a model name into its client property, e.g. "WhatsappSession" -> "whatsappSession"
+function toModelKey(name: string): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+// Helper function to apply a function to a nested write that may be one item or a list
+function mapItems(value: any, fn: (item: any) => any): any {
+    return Array.isArray(value) ? value.map(fn) : fn(value);
+}
+
+// Helper function to refuse a filter on an encrypted column, including inside AND/OR/NOT and
+// relation filters. Ciphertexts are randomized, so such a filter would silently match nothing.
+function checkWhere(where: any, model: string): void {
+    if (!where || typeof where !== 'object') {
+        return;
+    }
+    if (Array.isArray(where)) {
+        where.forEach((item) => checkWhere(item, model));
+        return;
+    }
+
+    const fields = ENCRYPTED_MODELS[model as EncryptedModelKey]?.fields ?? [];
+    const relations = RELATIONS[model] ?? {};
+    for (const [key, value] of Object.entries(where)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (fields.includes(key)) {
+            throw new Error(`Cannot filter on encrypted field "${key}"`);
+        }
+        if (key === 'AND' || key === 'OR' || key === 'NOT') {
+            checkWhere(value, model);
+        } else if (relations[key] && value && typeof value === 'object') {
+            // A relation filter is either the related record's filter or wrapped in is/isNot/some/every/none
+            const { is, isNot, some, every, none, ...direct } = value as any;
+            [is, isNot, some, every, none, direct].forEach((filter) => checkWhere(filter, relations[key]));
+        }
+    }
+}
+
+// Helper function to check the filters of relations an operation reads, e.g. include: { messages: { where } }
+function checkReads(args: any, model: string): void {
+    for (const selection of [args?.include, args?.select]) {
+        for (const [key, value] of Object.entries(selection ?? {})) {
+            const related = RELATIONS[model]?.[key];
+            if (related && value && typeof value === 'object') {
+                checkWhere((value as any).where, related);
+                checkReads(value, related);
+            }
+        }
+    }
+}
+
+// Helper function to encrypt a record being written, and the records it creates or updates through
+// its relations, e.g. an appointment created with patient: { create: { ... } }
+function encryptWrite(data: any, model: string): any {
+    if (!data || typeof data !== 'object') {
+        return data;
+    }
+    if (Array.isArray(data)) {
+        return data.map((item) => encryptWrite(item, model));
+    }
+
+    const encrypted = ENCRYPTED_MODELS[model as EncryptedModelKey];
+    const result = { ...(encrypted ? encryptData(data, encrypted) : data) };
+    for (const [field, related] of Object.entries(RELATIONS[model] ?? {})) {
+        if (result[field] && typeof result[field] === 'object') {
+            result[field] = encryptNestedWrite(result[field], related);
+        }
+    }
+    return result;
+}
+
+// Helper function to encrypt the nested writes on one relation, e.g. { create, connectOrCreate, update }
+function encryptNestedWrite(operations: any, model: string): any {
+    const result = { ...operations };
+    for (const [operation, value] of Object.entries<any>(operations)) {
+        switch (operation) {
+            case 'create':
+                result.create = encryptWrite(value, model);
+                break;
+            case 'createMany':
+                result.createMany = { ...value, data: encryptWrite(value.data, model) };
+                break;
+            case 'connectOrCreate':
+                result.connectOrCreate = mapItems(value, (item) => {
+                    checkWhere(item.where, model);
+                    return { ...item, create: encryptWrite(item.create, model) };
+                });
+                break;
+            case 'update':
+            case 'updateMany':
+                // Either { where, data } or, for a single related record, the data itself
+                result[operation] = mapItems(value, (item) => {
+                    if (item && typeof item === 'object' && 'data' in item) {
+                        checkWhere(item.where, model);
+                        return { ...item, data: encryptWrite(item.data, model) };
+                    }
+                    return encryptWrite(item, model);
+                });
+                break;
+            case 'upsert':
+                result.upsert = mapItems(value, (item) => {
+                    checkWhere(item.where, model);
+                    return { ...item, create: encryptWrite(item.create, model), update: encryptWrite(item.update, model) };
+                });
+                break;
+            default:
+                // connect, disconnect, set, delete and deleteMany pick records with a filter
+                checkWhere(value, model);
+        }
+    }
+    return result;
+}
+
+// Encrypt every payload an operation on a model writes, including nested writes to related models,
+// and refuse filters on encrypted columns
+export function encryptArgs(args: any, model: string): any {
+    if (!args) {
+        return args;
+    }
+
+    checkWhere(args.where, model);
+    checkReads(args, model);
+
+    return {
+        ...args,
+        ...(args.data !== undefined && { data: encryptWrite(args.data, model) }),
+        ...(args.create !== undefined && { create: encryptWrite(args.create, model) }),
+        ...(args.update !== undefined && { update: encryptWrite(args.update, model) }),
+    };
+}
+
+// Extend a Prisma client so message contents, patient details and WasenderAPI credentials are
+// encrypted on write and decrypted on read. Code using the extended client only ever sees plain text.
+export function withFieldEncryption(client: PrismaClient) {
+    return client.$extends({
+        name: 'fieldEncryption',
+        query: {
+            $allModels: {
+                $allOperations({ model, args, query }) {
+                    return query(encryptArgs(args, toModelKey(model)));
+                }
+            }
+        },
+        result: {
+            message: {
+                content: {
+                    needs: { content: true },
+                    compute: (message) => decryptField(message.content)
+                }
+            },
+            appointment: {
+                patientName: {
+                    needs: { patientName: true },
+                    compute: (appointment) => decryptField(appointment.patientName)
+                },
+                patientPhone: {
+                    needs: { patientPhone: true },
+                    compute: (appointment) => decryptField(appointment.patientPhone)
+                }
+            },
+            patient: {
+                phone: {
+                    needs: { phone: true },
+                    compute: (patient) => decryptField(patient.phone)
+                },
+                alternatePhones: {
+                    needs: { alternatePhones: true },
+                    compute: (patient) => patient.alternatePhones.map(decryptField)
+                },
+                name: {
+                    needs: { name: true },
+                    compute: (patient) => patient.name === null ? null : decryptField(patient.name)
+                },
+                whatsappName: {
+                    needs: { whatsappName: true },
+                    compute: (patient) => patient.whatsappName === null ? null : decryptField(patient.whatsappName)
+                },
+                notes: {
+                    needs: { notes: true },
+                    compute: (patient) => patient.notes === null ? null : decryptField(patient.notes)
+                }
+            },
+            whatsappSession: {
+                apiKey: {
+                    needs: { apiKey: true },
+                    compute: (session) => decryptField(session.apiKey)
+                },
+                webhookSecret: {
+                    needs: { webhookSecret: true },
+                    compute: (session) => decryptField(session.webhookSecret)
+                }
+            }
+        }
+    });
+}
@@ -0,0 +1,62 @@
+// src/utils/textNormalization.ts
+import { normalizeDigits } from './menuNumbers';
+
+// Harakat, tanween, shadda, sukun and the superscript alef, which patients rarely type consistently
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670]/g;
+const TATWEEL = /\u0640/g;
+
+// Letters Arabic keyboards and spellings use interchangeably, mapped to one form
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+    'أ': 'ا',
+    'إ': 'ا',
+    'آ': 'ا',
+    'ٱ': 'ا',
+    'ة': 'ه',
+    'ى': 'ي',
+    'ؤ': 'و',
+    'ئ': 'ي',
+};
+
+// Lower-case the text, fold Arabic spelling variants and replace punctuation with spaces, so
+// "أين العيادة؟" and "اين العياده" compare equal
+export function normalizeText(text: string): string {
+    return normalizeDigits(text)
+        .toLowerCase()
+        .replace(ARABIC_DIACRITICS, '')
+        .replace(TATWEEL, '')
+        .replace(/[أإآٱةىؤئ]/g, (letter) => ARABIC_LETTER_VARIANTS[letter])
+        .replace(/[^\p{L}\p{N}']+/gu, ' ')
+        .trim();
+}
+
+// The words of a message after normalization
+export function tokenize(text: string): string[] {
+    const normalized = normalizeText(text);
+    return normalized ? normalized.split(' ') : [];
+}
+
+// Edit distance counting insertions, deletions, substitutions and swaps of neighbouring letters,
+// so "adress", "apointment" and "hte" are each one typo away
+export function editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const distances: number[][] = Array.from({ length: rows }, (_, i) =>
+        Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            distances[i][j] = Math.min(
+                distances[i - 1][j] + 1,
+                distances[i][j - 1] + 1,
+                distances[i - 1][j - 1] + cost
+            );
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return distances[a.length][b.length];
+}
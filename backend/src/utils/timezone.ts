@@ -0,0 +1,97 @@
+// src/utils/timezone.ts
+// Clinic-local dates and times without a date library. A missing time zone means the server's own.
+
+// A calendar day and time of day as shown on a wall clock in some time zone
+export interface ZonedDateTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    weekday: number; // 0 for Sunday, like Date.getDay()
+    minutes: number; // since midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whether a value is an IANA time zone name the runtime knows, e.g. "Asia/Dubai"
+export function isValidTimeZone(value: unknown): boolean {
+    if (typeof value !== 'string' || !value.trim()) {
+        return false;
+    }
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Formatters are slow to create and schedules convert many times, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone?: string | null): Intl.DateTimeFormat {
+    const key = timeZone || '';
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timeZone || undefined,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric'
+        });
+        formatters.set(key, formatter);
+    }
+    return formatter;
+}
+
+// The wall-clock date and time of an instant in a time zone
+export function getZonedDateTime(date: Date, timeZone?: string | null): ZonedDateTime {
+    const parts = getFormatter(timeZone).formatToParts(date);
+    const part = (type: string) => parts.find((item) => item.type === type)?.value ?? '';
+
+    return {
+        year: parseInt(part('year'), 10),
+        month: parseInt(part('month'), 10),
+        day: parseInt(part('day'), 10),
+        weekday: WEEKDAYS.indexOf(part('weekday')),
+        minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+    };
+}
+
+// The instant a wall clock in the time zone shows the given day and time. Minutes past midnight
+// may exceed a day, e.g. 1440 for "24:00".
+export function zonedTimeToDate(year: number, month: number, day: number, minutes: number, timeZone?: string | null): Date {
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+    // Guess with the zone's offset at the wall-clock time, then correct once in case that guess
+    // crossed a daylight saving change
+    const guess = wallClock - offsetAt(wallClock, timeZone);
+    return new Date(wallClock - offsetAt(guess, timeZone));
+}
+
+// A calendar day `offset` days after the given one, with its weekday
+export function addDays(date: { year: number; month: number; day: number }, offset: number): ZonedDateTime {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + offset));
+    return {
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+        weekday: shifted.getUTCDay(),
+        minutes: 0
+    };
+}
+
+// "2025-01-06" for a calendar day, the format closures are compared in
+export function toDateKey(date: { year: number; month: number; day: number }): string {
+    return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+// How far ahead of UTC the zone's clocks are at an instant, in milliseconds
+function offsetAt(timestamp: number, timeZone?: string | null): number {
+    const wholeMinute = Math.floor(timestamp / 60000) * 60000;
+    const zoned = getZonedDateTime(new Date(wholeMinute), timeZone);
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes) - wholeMinute;
+}
@@ -0,0 +1,32 @@
+// src/utils/webhookSecurity.ts
+import crypto from 'crypto';
+
+// Constant-time string comparison; hashing first keeps the length of the secret from leaking too
+export function safeEqual(a: string, b: string): boolean {
+    const hashA = crypto.createHash('sha256').update(a).digest();
+    const hashB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+}
+
+// Lookup key for a webhook secret, so sessions can be found without storing or querying the secret itself
+export function hashWebhookSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+// Verify a webhook signature header against the session's secret.
+// WasenderAPI sends the webhook secret itself; providers that sign payloads send an
+// HMAC-SHA256 of the raw body (hex or base64, optionally prefixed with "sha256=").
+export function verifySignature(rawBody: Buffer | string, signature: string, secret: string): boolean {
+    if (!signature || !secret) {
+        return false;
+    }
+
+    if (safeEqual(signature, secret)) {
+        return true;
+    }
+
+    const provided = signature.startsWith('sha256=') ? signature.slice('sha256='.length) : signature;
+    const digest = crypto.createHmac('sha256', secret).update(rawBody).digest();
+
+    return safeEqual(provided.toLowerCase(), digest.toString('hex')) || safeEqual(provided, digest.toString('base64'));
+}
@@ -0,0 +1,250 @@
+// src/utils/workingHours.ts
+import { addDays, getZonedDateTime, toDateKey, zonedTimeToDate } from './timezone';
+
+// Keys of ClinicSetting.workingHours, indexed like Date.getDay()
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface TimeRange {
+    open: string; // "09:00"
+    close: string; // "17:00"
+}
+
+export interface BreakRange {
+    start: string; // "13:00"
+    end: string; // "14:00"
+}
+
+// One day of ClinicSetting.workingHours: a single shift { open, close } or several { shifts: [...] },
+// either with breaks, e.g. { "open": "09:00", "close": "18:00", "breaks": [{ "start": "13:00", "end": "14:00" }] }
+export interface DaySchedule {
+    open?: string;
+    close?: string;
+    shifts?: TimeRange[];
+    breaks?: BreakRange[];
+}
+
+export type WorkingHours = Partial<Record<string, DaySchedule | null>>;
+
+// A ClinicClosure: days the clinic is closed whatever its weekly hours say, e.g. a public holiday
+export interface Closure {
+    startDate: Date | string; // first closed day
+    endDate: Date | string; // last closed day
+    reasonEn?: string | null;
+    reasonAr?: string | null;
+}
+
+// The ClinicSetting fields that decide when the clinic is open
+export interface ClinicSchedule {
+    workingHours: unknown;
+    closures?: Closure[];
+    timezone?: string | null;
+}
+
+export interface OpenInterval {
+    start: Date;
+    end: Date;
+}
+
+export interface OpenStatus {
+    isOpen: boolean;
+    closesAt: Date | null; // end of the current opening period
+    nextOpening: Date | null; // when a closed clinic opens again
+}
+
+// How far ahead to look for the next opening, long enough to get past a holiday season
+const NEXT_OPENING_SEARCH_DAYS = 60;
+
+// Convert "HH:MM" to minutes since midnight
+export function toMinutes(time: string | undefined): number | null {
+    const match = time ? /^(\d{1,2}):(\d{2})$/.exec(time.trim()) : null;
+    if (!match) {
+        return null;
+    }
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+        return null;
+    }
+    return hours * 60 + minutes;
+}
+
+// Convert minutes since midnight to "HH:MM"
+export function formatMinutes(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Helper function to check one opening range of a day. Returns an error message, or null if valid.
+function validateRange(day: string, open: unknown, close: unknown): string | null {
+    if (typeof open !== 'string' || typeof close !== 'string') {
+        return `Working hours for ${day} need "open" and "close" times`;
+    }
+
+    const openMinutes = toMinutes(open);
+    const closeMinutes = toMinutes(close);
+    if (openMinutes === null || closeMinutes === null) {
+        return `Working hours for ${day} must use the HH:MM format`;
+    }
+
+    if (openMinutes >= closeMinutes) {
+        return `Opening time for ${day} must be before closing time`;
+    }
+
+    return null;
+}
+
+// Check a workingHours value such as { "sunday": { "open": "09:00", "close": "17:00" } }, or with
+// several shifts and breaks (see DaySchedule). Days may be omitted or null when the clinic is closed.
+// Returns an error message, or null if valid.
+export function validateWorkingHours(value: unknown): string | null {
+    if (value === null) {
+        return null;
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        return 'Working hours must be an object keyed by day name';
+    }
+
+    for (const [day, hours] of Object.entries(value as Record<string, unknown>)) {
+        if (!DAY_NAMES.includes(day)) {
+            return `Unknown day "${day}" in working hours`;
+        }
+
+        if (hours === null) {
+            continue;
+        }
+
+        const { open, close, shifts, breaks } = (hours || {}) as Record<string, unknown>;
+
+        if (shifts !== undefined) {
+            if (!Array.isArray(shifts) || shifts.length === 0) {
+                return `Shifts for ${day} must be a non-empty list`;
+            }
+            for (const shift of shifts) {
+                const shiftError = validateRange(day, shift?.open, shift?.close);
+                if (shiftError) {
+                    return shiftError;
+                }
+            }
+        } else {
+            const rangeError = validateRange(day, open, close);
+            if (rangeError) {
+                return rangeError;
+            }
+        }
+
+        const ranges = getDayIntervals({ open, close, shifts } as DaySchedule);
+        if (ranges.some((range, index) => index > 0 && ranges[index - 1][1] > range[0])) {
+            return `Shifts for ${day} must not overlap`;
+        }
+
+        if (breaks !== undefined) {
+            if (!Array.isArray(breaks)) {
+                return `Breaks for ${day} must be a list`;
+            }
+            for (const pause of breaks) {
+                const start = toMinutes(pause?.start);
+                const end = toMinutes(pause?.end);
+                if (start === null || end === null || start >= end) {
+                    return `Breaks for ${day} need a "start" before their "end" in the HH:MM format`;
+                }
+                if (!ranges.some(([openMinutes, closeMinutes]) => start >= openMinutes && end <= closeMinutes)) {
+                    return `Breaks for ${day} must fall within its opening hours`;
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+// Prisma returns the Json column as an object; anything else means no hours are set
+export function toWorkingHours(raw: unknown): WorkingHours {
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as WorkingHours) : {};
+}
+
+// The opening periods of a day in minutes since midnight, in order, with breaks cut out
+export function getDayIntervals(hours: DaySchedule | null | undefined): [number, number][] {
+    if (!hours) {
+        return [];
+    }
+
+    const shifts = hours.shifts ?? (hours.open && hours.close ? [{ open: hours.open, close: hours.close }] : []);
+    let intervals = shifts
+        .map((shift): [number | null, number | null] => [toMinutes(shift.open), toMinutes(shift.close)])
+        .filter((range): range is [number, number] => range[0] !== null && range[1] !== null && range[0] < range[1])
+        .sort((a, b) => a[0] - b[0]);
+
+    for (const pause of hours.breaks || []) {
+        const start = toMinutes(pause.start);
+        const end = toMinutes(pause.end);
+        if (start === null || end === null) {
+            continue;
+        }
+        intervals = intervals.flatMap(([open, close]): [number, number][] => {
+            if (end <= open || start >= close) {
+                return [[open, close]];
+            }
+            return ([[open, start], [end, close]] as [number, number][]).filter(([from, to]) => from < to);
+        });
+    }
+
+    return intervals;
+}
+
+// "2025-12-25" for a closure date, however it was loaded
+export function toClosureKey(value: Date | string): string {
+    return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+// The closure covering a calendar day given as "YYYY-MM-DD", if any
+export function findClosure<T extends Closure>(closures: T[], dateKey: string): T | undefined {
+    return closures.find((closure) =>
+        toClosureKey(closure.startDate) <= dateKey && dateKey <= toClosureKey(closure.endDate)
+    );
+}
+
+// The clinic's opening periods from the clinic-local day of `from`, for `days` days, skipping closures
+export function getOpenIntervals(schedule: ClinicSchedule, from: Date, days: number): OpenInterval[] {
+    const hours = toWorkingHours(schedule.workingHours);
+    const today = getZonedDateTime(from, schedule.timezone);
+    const intervals: OpenInterval[] = [];
+
+    for (let offset = 0; offset < days; offset++) {
+        const day = addDays(today, offset);
+        if (findClosure(schedule.closures || [], toDateKey(day))) {
+            continue;
+        }
+
+        for (const [open, close] of getDayIntervals(hours[DAY_NAMES[day.weekday]])) {
+            intervals.push({
+                start: zonedTimeToDate(day.year, day.month, day.day, open, schedule.timezone),
+                end: zonedTimeToDate(day.year, day.month, day.day, close, schedule.timezone)
+            });
+        }
+    }
+
+    return intervals;
+}
+
+// Whether the clinic is open at `now`, until when, and otherwise when it opens next
+export function getOpenStatus(schedule: ClinicSchedule, now: Date = new Date()): OpenStatus {
+    const intervals = getOpenIntervals(schedule, now, NEXT_OPENING_SEARCH_DAYS);
+    const current = intervals.find((interval) => interval.start <= now && now < interval.end);
+    if (current) {
+        return { isOpen: true, closesAt: current.end, nextOpening: null };
+    }
+
+    const next = intervals.find((interval) => interval.start > now);
+    return { isOpen: false, closesAt: null, nextOpening: next?.start ?? null };
+}
+
+// Closures that are not over yet and start within `days` days, in order
+export function getUpcomingClosures<T extends Closure>(schedule: { closures?: T[]; timezone?: string | null }, now: Date, days: number): T[] {
+    const today = getZonedDateTime(now, schedule.timezone);
+    const from = toDateKey(today);
+    const until = toDateKey(addDays(today, days));
+
+    return (schedule.closures || [])
+        .filter((closure) => toClosureKey(closure.endDate) >= from && toClosureKey(closure.startDate) <= until)
+        .sort((a, b) => toClosureKey(a.startDate).localeCompare(toClosureKey(b.startDate)));
+}